@@ -4,24 +4,79 @@ import { resolve } from 'node:path';
 import type {
   ConfigOptions,
   Source,
+  HttpSource,
+  PluginSource,
   LoaderContext,
   PathsOf,
   ValueAt,
   ValueProvenance,
   ConfigEvent,
   ConfigEventListener,
+  ConfigSourceEvent,
+  ConfigChange,
+  BeforeChangeHook,
+  PathChangeListener,
   WatchOptions,
   DecryptionConfig,
 } from './types.js';
-import { deepMerge, getByPath, deepFreeze } from '../utils/deep-merge.js';
+import { deepMerge, getByPath, setByPath, deepFreeze, isPlainObject } from '../utils/deep-merge.js';
 import { interpolate } from '../utils/interpolate.js';
 import { maskObject, type MaskOptions } from '../utils/mask.js';
-import { decryptObject, hasEncryptedValues } from '../utils/encrypt.js';
-import { ConfigValidationError } from '../errors/validation.js';
-import { EnvLoader } from '../loaders/env.js';
-import { FileLoader } from '../loaders/file.js';
-import { getPlugin } from '../plugins/registry.js';
-import { PluginNotFoundError } from '../errors/validation.js';
+import { decryptObject, decryptValue, encryptValue, hasEncryptedValues } from '../utils/encrypt.js';
+import { ConfigChangeRejectedError, ConfigValidationError, SecretReferenceError } from '../errors/validation.js';
+import { EnvLoader, type EnvLoaderOptions } from '../loaders/env.js';
+import {
+  FileLoader,
+  getGlobBase,
+  resolveFilePath,
+  type FileLoaderOptions,
+} from '../loaders/file.js';
+import { DirectoryLoader } from '../loaders/directory.js';
+import { ArgvLoader, type ArgvLoaderOptions } from '../loaders/argv.js';
+import {
+  HttpLoader,
+  formatHttpSource,
+  redactUrl,
+  type HttpLoaderOptions,
+  type HttpRequestEvent,
+  type HttpValidators,
+} from '../loaders/http.js';
+import { acquirePlugin, getPlugin, releasePlugin } from '../plugins/registry.js';
+import type { Plugin, PluginUnwatch } from '../plugins/types.js';
+import { PluginNotFoundError, PluginOptionsError } from '../errors/validation.js';
+import { detectProfile, resolveSources } from './profiles.js';
+import { readSnapshot, writeSnapshot } from './snapshot.js';
+import { loadGuarded, type AttemptOptions, type SourceGuard, type SourceHealth } from './resilience.js';
+import {
+  findSecretRefs,
+  resolveSecretRefs,
+  substituteSecretRefs,
+  type SecretRefCache,
+} from './references.js';
+
+/**
+ * A path watched for changes
+ */
+interface WatchTarget {
+  path: string;
+  /** Directories reload on any event, files only on content changes */
+  directory: boolean;
+  /** Watch subdirectories too (glob patterns with **) */
+  recursive?: boolean;
+}
+
+/**
+ * A value set with `Config.override()`
+ */
+interface RuntimeOverride {
+  path: string;
+  value: unknown;
+}
+
+/**
+ * Provenance of values set with `Config.override()`
+ */
+const OVERRIDE_SOURCE = 'runtime override';
 
 /**
  * Type-safe configuration container with watch support
@@ -32,21 +87,58 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
   private readonly options: ConfigOptions<TSchema>;
   private readonly context: LoaderContext;
   private watchers: FSWatcher[] = [];
+  private pollers: Array<ReturnType<typeof setInterval>> = [];
+  /** Stop functions returned by plugin watch hooks */
+  private pluginWatchers: PluginUnwatch[] = [];
+  /** Settles once the plugin watches stopped by unwatch() have stopped */
+  private stoppingPluginWatchers: Promise<void> = Promise.resolve();
+  /** Incremented by unwatch() so late plugin watch results can be discarded */
+  private watchGeneration = 0;
   private listeners: Set<ConfigEventListener<TData>> = new Set();
   private isWatching = false;
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
   private debounceDelay = 100;
+  /** Files read during the last load, including extended/included files */
+  private files: Set<string>;
+  /** Validators of HTTP sources from the last load, for polling */
+  private validators: Map<string, HttpValidators>;
+  /** Data loaded from each source during the last load */
+  private layers: LoadedConfig[];
+  /** Runtime overrides, in the order they were set */
+  private overrides: RuntimeOverride[] = [];
+  private hooks: Set<BeforeChangeHook<TData>> = new Set();
+  /** Whether the data came from the snapshot because the sources failed */
+  private restoredFromSnapshot = false;
+  /** Circuit breakers and last loaded data of plugin and HTTP sources */
+  private readonly sourceHealth: Map<Source, SourceHealth>;
+  /** Values of the secret references in the last loaded sources, by URI */
+  private references: Map<string, unknown>;
+  /** Resolved secret references reused across reloads */
+  private readonly refCache: SecretRefCache;
+  /** Plugins this config initialized, released by close() */
+  private readonly pluginUsage: PluginUsage;
+  /** Settles when the running reload is done, so reloads apply in order */
+  private pendingReload: Promise<void> = Promise.resolve();
 
   private constructor(
-    data: TData,
-    provenance: Map<string, ValueProvenance>,
+    loaded: LoadResult<TSchema>,
     options: ConfigOptions<TSchema>,
-    context: LoaderContext
+    context: LoaderContext,
+    sourceHealth: Map<Source, SourceHealth>,
+    refCache: SecretRefCache,
+    pluginUsage: PluginUsage
   ) {
-    this.data = deepFreeze(data as object) as TData;
-    this.provenance = provenance;
+    this.data = deepFreeze(loaded.data as object) as TData;
+    this.provenance = loaded.provenance;
+    this.files = loaded.files;
+    this.validators = loaded.validators;
+    this.layers = loaded.layers;
+    this.references = loaded.references;
     this.options = options;
     this.context = context;
+    this.sourceHealth = sourceHealth;
+    this.refCache = refCache;
+    this.pluginUsage = pluginUsage;
   }
 
   /**
@@ -85,6 +177,31 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
     return this.provenance.get(path)?.source;
   }
 
+  /**
+   * Override a value at runtime (admin toggles, tests).
+   * The override is validated against the schema and takes precedence over
+   * every source, including after `reload()`. Object values are deep-merged.
+   * Returns a function that removes the override.
+   *
+   * @throws SecretReferenceError if the value contains secret references
+   * @throws ConfigValidationError if the resulting config is invalid
+   */
+  override<P extends PathsOf<TData>>(path: P, value: ValueAt<TData, P>): () => void {
+    // Resolving would make this method async; references only work in sources
+    const references = [...findSecretRefs({ value }).values()].map((reference) => reference.uri);
+    if (references.length > 0) {
+      throw new SecretReferenceError(references, 'Runtime overrides cannot contain secret references; pass the secret value');
+    }
+
+    const entry: RuntimeOverride = { path, value };
+    this.applyOverrides([...this.overrides, entry]);
+
+    return () => {
+      if (!this.overrides.includes(entry)) return;
+      this.applyOverrides(this.overrides.filter((override) => override !== entry));
+    };
+  }
+
   /**
    * Start watching config files for changes
    */
@@ -94,30 +211,8 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
     this.debounceDelay = options.debounce ?? 100;
     this.isWatching = true;
 
-    // Get file paths to watch
-    const filePaths = this.getWatchablePaths();
-
-    for (const filePath of filePaths) {
-      try {
-        const watcher = fsWatch(filePath, (eventType) => {
-          if (eventType === 'change') {
-            this.scheduleReload();
-          }
-        });
-
-        watcher.on('error', (error) => {
-          this.emit({
-            type: 'error',
-            error: error instanceof Error ? error : new Error(String(error)),
-            source: filePath,
-          });
-        });
-
-        this.watchers.push(watcher);
-      } catch {
-        // File might not exist (optional sources), ignore
-      }
-    }
+    this.startWatchers();
+    this.startPluginWatchers();
 
     if (options.immediate) {
       this.reload().catch((error) => {
@@ -130,7 +225,7 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
   }
 
   /**
-   * Stop watching config files
+   * Stop watching config files and plugin sources
    */
   unwatch(): void {
     if (!this.isWatching) return;
@@ -142,10 +237,25 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
       this.debounceTimer = null;
     }
 
-    for (const watcher of this.watchers) {
-      watcher.close();
-    }
-    this.watchers = [];
+    this.stopWatchers();
+    this.stoppingPluginWatchers = this.stopPluginWatchers();
+  }
+
+  /**
+   * Stop watching and release the plugins this config initialized.
+   * Resolves once plugin watches are stopped; a plugin's dispose() runs
+   * when no other config uses it.
+   */
+  async close(): Promise<void> {
+    this.unwatch();
+    await this.stoppingPluginWatchers;
+
+    const plugins = [...this.pluginUsage.keys()];
+    this.pluginUsage.clear();
+
+    await Promise.all(plugins.map((plugin) => releasePlugin(plugin).catch((error: unknown) => {
+      this.emit({ type: 'error', error: error instanceof Error ? error : new Error(String(error)) });
+    })));
   }
 
   /**
@@ -156,6 +266,55 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
     return () => this.off(listener);
   }
 
+  /**
+   * Listen for changes to a single path.
+   * The listener fires when the path, one of its descendants, or an ancestor
+   * that replaced it changed.
+   * Returns a function that removes the listener.
+   *
+   * @example
+   * ```typescript
+   * config.subscribe('database.pool', (pool) => rebuildPool(pool));
+   * ```
+   */
+  subscribe<P extends PathsOf<TData>>(
+    path: P,
+    listener: PathChangeListener<ValueAt<TData, P>>
+  ): () => void {
+    const target: string = path;
+
+    return this.on((event) => {
+      if (event.type !== 'change') return;
+
+      const affected = event.changedPaths.some(
+        (changed) =>
+          changed === target ||
+          changed.startsWith(`${target}.`) ||
+          target.startsWith(`${changed}.`)
+      );
+
+      if (affected) {
+        listener(
+          getByPath(event.newData as Record<string, unknown>, target) as ValueAt<TData, P>,
+          getByPath(event.oldData as Record<string, unknown>, target) as ValueAt<TData, P>
+        );
+      }
+    });
+  }
+
+  /**
+   * Register a hook that can veto changes picked up by `reload()`,
+   * for example when the database host changes.
+   * A vetoed reload keeps the current data and emits a `reject` event.
+   * Returns a function that removes the hook.
+   */
+  beforeChange(hook: BeforeChangeHook<TData>): () => void {
+    this.hooks.add(hook);
+    return () => {
+      this.hooks.delete(hook);
+    };
+  }
+
   /**
    * Remove event listener
    */
@@ -164,42 +323,196 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
   }
 
   /**
-   * Manually reload configuration
+   * Manually reload configuration.
+   * Reloads run one at a time, so a slow beforeChange hook cannot apply older data after newer data.
    */
-  async reload(): Promise<void> {
-    const oldData = this.data;
+  reload(): Promise<void> {
+    const run = this.pendingReload.then(() => this.runReload());
+    this.pendingReload = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runReload(): Promise<void> {
+    let loaded: LoadResult<TSchema>;
+    const overrides = this.overrides;
 
     try {
-      const { data, provenance } = await loadConfig(this.options, this.context);
+      loaded = await loadConfig(this.options, this.context, {
+        health: this.sourceHealth,
+        report: (event) => this.reportSourceEvent(event),
+      }, this.refCache, this.pluginUsage, createOverrideLayer(overrides));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.emit({ type: 'error', error: err });
+      this.emit({ type: 'reject', reason: 'error', error: err, changedPaths: [] });
+      throw error;
+    }
 
-      // Find changed paths
-      const changedPaths = this.findChangedPaths(oldData, data as TData);
+    const { layers, files, references } = loaded;
+    let { data, provenance } = loaded;
 
-      if (changedPaths.length > 0) {
-        this.data = deepFreeze(data as object) as TData;
-        this.provenance = provenance;
+    // Even a vetoed change has been seen; poll for the next one
+    this.validators = loaded.validators;
 
-        this.emit({
-          type: 'change',
-          newData: this.data,
-          oldData,
-          changedPaths,
-        });
-      }
+    const changedPaths = this.findChangedPaths(this.data, data as TData);
 
-      this.emit({
-        type: 'reload',
-        data: this.data,
+    if (changedPaths.length > 0) {
+      const rejection = await this.runBeforeChangeHooks({
+        newData: data as TData,
+        oldData: this.data,
+        changedPaths,
       });
+
+      if (rejection) {
+        this.emit({ type: 'reject', reason: 'vetoed', error: rejection, changedPaths });
+        return;
+      }
+    }
+
+    // Overrides set or removed while loading apply on top of the new sources
+    if (this.overrides !== overrides) {
+      try {
+        ({ data, provenance } = this.buildWithOverrides(layers, references, this.overrides));
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.emit({ type: 'error', error: err });
+        this.emit({ type: 'reject', reason: 'error', error: err, changedPaths: [] });
+        throw error;
+      }
+    }
+
+    this.layers = layers;
+    this.references = references;
+    this.restoredFromSnapshot = false;
+    this.saveSnapshot(data);
+
+    // Included files may have been added or removed
+    if (!sameSet(files, this.files)) {
+      this.files = files;
+      if (this.isWatching) {
+        this.stopWatchers();
+        this.startWatchers();
+      }
+    }
+
+    this.update(data as TData, provenance);
+
+    this.emit({
+      type: 'reload',
+      data: this.data,
+    });
+  }
+
+  /**
+   * Whether the current data was restored from the last-known-good snapshot
+   * because the sources failed to load. Cleared by the next successful reload.
+   */
+  get fromSnapshot(): boolean {
+    return this.restoredFromSnapshot;
+  }
+
+  /**
+   * Run beforeChange hooks in registration order.
+   * Returns the rejection if any hook vetoed the change.
+   */
+  private async runBeforeChangeHooks(
+    change: ConfigChange<TData>
+  ): Promise<ConfigChangeRejectedError | undefined> {
+    for (const hook of this.hooks) {
+      try {
+        if ((await hook(change)) === false) {
+          return new ConfigChangeRejectedError(change.changedPaths);
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return new ConfigChangeRejectedError(change.changedPaths, reason);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Persist the loaded sources as the last-known-good snapshot,
+   * keeping only the values the schema accepted in the validated data.
+   * With a decryption key, the data and the resolved secret references are stored
+   * encrypted, so restoring does not depend on the secret backends. Without one,
+   * values from plugin sources and secret files are left out.
+   */
+  private saveSnapshot(validated: unknown): void {
+    if (!this.options.snapshot) return;
+
+    const snapshotPath = resolve(this.context.cwd, this.options.snapshot);
+    try {
+      const key = getDecryptionKey(this.options.decrypt, this.context);
+      if (!key) {
+        const data = pickValidatedPaths(mergeLayers(withoutSecrets(this.layers)), validated);
+        writeSnapshot(snapshotPath, { data, references: {} });
+        return;
+      }
+
+      const references: Record<string, string> = {};
+      for (const [uri, value] of this.references) {
+        if (value !== undefined) references[uri] = encryptValue(JSON.stringify(value), key);
+      }
+      const data = pickValidatedPaths(mergeLayers(this.layers), validated);
+      writeSnapshot(snapshotPath, { data: encryptValue(JSON.stringify(data), key), references });
     } catch (error) {
       this.emit({
         type: 'error',
         error: error instanceof Error ? error : new Error(String(error)),
+        source: snapshotPath,
       });
-      throw error;
     }
   }
 
+  /**
+   * Apply a new set of overrides on top of the last loaded sources
+   */
+  private applyOverrides(overrides: RuntimeOverride[]): void {
+    const { data, provenance } = this.buildWithOverrides(this.layers, this.references, overrides);
+
+    this.overrides = overrides;
+    this.update(data as TData, provenance);
+  }
+
+  /**
+   * Build the config from loaded sources with overrides on top
+   */
+  private buildWithOverrides(
+    sourceLayers: LoadedConfig[],
+    references: Map<string, unknown>,
+    overrides: RuntimeOverride[]
+  ): { data: z.infer<TSchema>; provenance: Map<string, ValueProvenance> } {
+    const layers = [...sourceLayers, ...createOverrideLayer(overrides)];
+    return buildConfig(
+      layers,
+      interpolateLayers(layers, this.options, this.context),
+      this.options,
+      this.context,
+      references
+    );
+  }
+
+  /**
+   * Replace the current data, emitting a change event if any value changed
+   */
+  private update(data: TData, provenance: Map<string, ValueProvenance>): void {
+    const oldData = this.data;
+    const changedPaths = this.findChangedPaths(oldData, data);
+
+    if (changedPaths.length === 0) return;
+
+    this.data = deepFreeze(data as object) as TData;
+    this.provenance = provenance;
+
+    this.emit({
+      type: 'change',
+      newData: this.data,
+      oldData,
+      changedPaths,
+    });
+  }
+
   /**
    * Check if currently watching
    */
@@ -208,16 +521,215 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
   }
 
   /**
-   * Get file paths that can be watched
+   * Create file system watchers for all watchable paths
    */
-  private getWatchablePaths(): string[] {
-    const paths: string[] = [];
+  private startWatchers(): void {
+    for (const target of this.getWatchablePaths()) {
+      try {
+        this.watchPath(target);
+      } catch (error) {
+        if (!target.recursive || (error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+          // File might not exist (optional sources), ignore
+          continue;
+        }
+
+        // Recursive watching needs Node 20+ on Linux: watch the top directory only
+        this.emit({
+          type: 'error',
+          error: new Error(
+            `Recursive watching is not supported by Node ${process.version} on ${process.platform}; ` +
+            `only changes directly in ${target.path} reload the config`
+          ),
+          source: target.path,
+        });
+        try {
+          this.watchPath({ ...target, recursive: false });
+        } catch {
+          // Directory might not exist (optional sources), ignore
+        }
+      }
+    }
+
+    for (const source of this.getActiveSources()) {
+      if (source.type === 'http' && source.pollInterval) {
+        this.startPoller(source, source.pollInterval);
+      }
+    }
+  }
+
+  /**
+   * Watch a file or directory, reloading on changes
+   */
+  private watchPath({ path: filePath, directory, recursive = false }: WatchTarget): void {
+    const watcher = fsWatch(filePath, { recursive }, (eventType) => {
+      // Directories change through renames (files added/removed, atomic symlink swaps)
+      if (eventType === 'change' || directory) {
+        this.scheduleReload();
+      }
+    });
+
+    watcher.on('error', (error) => {
+      this.emit({
+        type: 'error',
+        error: error instanceof Error ? error : new Error(String(error)),
+        source: filePath,
+      });
+    });
+
+    this.watchers.push(watcher);
+  }
+
+  /**
+   * Start the watch hooks of plugin sources
+   */
+  private startPluginWatchers(): void {
+    const generation = this.watchGeneration;
+
+    for (const source of this.getActiveSources()) {
+      if (source.type !== 'plugin') continue;
+
+      const plugin = findPlugin(source.name, this.options.plugins);
+      if (!plugin?.watch) continue;
+
+      const sourceName = formatSourceName(source);
+
+      const notify = (error?: Error): void => {
+        if (generation !== this.watchGeneration) return;
+        if (error) {
+          this.emit({ type: 'error', error, source: sourceName });
+        } else {
+          this.scheduleReload();
+        }
+      };
+
+      usePlugin(this.pluginUsage, plugin, this.context)
+        .then(() => {
+          if (generation !== this.watchGeneration) return undefined;
+          return plugin.watch!(validatePluginOptions(plugin, source), this.context, notify);
+        })
+        .then(async (stop) => {
+          if (!stop) return;
+          if (generation === this.watchGeneration) {
+            this.pluginWatchers.push(stop);
+          } else {
+            // unwatch() was called while the plugin was starting
+            await stop();
+          }
+        })
+        .catch((error: unknown) => {
+          this.emit({
+            type: 'error',
+            error: error instanceof Error ? error : new Error(String(error)),
+            source: sourceName,
+          });
+        });
+    }
+  }
+
+  /**
+   * Stop the plugin watches started by this config
+   */
+  private async stopPluginWatchers(): Promise<void> {
+    this.watchGeneration++;
+
+    const stops = this.pluginWatchers;
+    this.pluginWatchers = [];
+
+    await Promise.all(stops.map((stop) => Promise.resolve().then(stop).catch((error: unknown) => {
+      this.emit({ type: 'error', error: error instanceof Error ? error : new Error(String(error)) });
+    })));
+  }
+
+  /**
+   * Pass a `source` event to `onSourceEvent` and the listeners
+   */
+  private reportSourceEvent(event: ConfigSourceEvent): void {
+    this.options.onSourceEvent?.(event);
+    this.emit(event);
+  }
+
+  /**
+   * Poll an HTTP source and schedule a reload when it changed
+   */
+  private startPoller(source: HttpSource, interval: number): void {
+    const loader = new HttpLoader();
+    let polling = false;
+
+    const poller = setInterval(() => {
+      // Skip this tick if the previous request is still running,
+      // or while the source's circuit breaker is open
+      if (polling || this.sourceHealth.get(source)?.breaker?.isOpen()) return;
+      polling = true;
+
+      const options: HttpLoaderOptions = {
+        ...toHttpLoaderOptions(source),
+        report: (event) => this.reportSourceEvent({ type: 'source', source: formatSourceName(source), ...event }),
+      };
+
+      loader
+        .hasChanged(options, this.validators.get(source.url))
+        .then((changed) => {
+          if (changed) this.scheduleReload();
+        })
+        .catch((error: unknown) => {
+          this.emit({
+            type: 'error',
+            error: error instanceof Error ? error : new Error(String(error)),
+            source: redactUrl(source.url),
+          });
+        })
+        .finally(() => {
+          polling = false;
+        });
+    }, interval);
+
+    this.pollers.push(poller);
+  }
+
+  /**
+   * Close all file system watchers and stop polling
+   */
+  private stopWatchers(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+
+    for (const poller of this.pollers) {
+      clearInterval(poller);
+    }
+    this.pollers = [];
+  }
+
+  /**
+   * Get file and directory paths that can be watched
+   */
+  private getWatchablePaths(): WatchTarget[] {
+    const paths: WatchTarget[] = [];
     const sources = this.getActiveSources();
 
     for (const source of sources) {
       if (source.type === 'file') {
-        const filePath = resolve(this.context.cwd, source.path);
-        paths.push(filePath);
+        const { path, glob } = resolveFilePath(source.path, this.context, source.glob);
+        if (glob) {
+          // Watch the directory so added and removed files are noticed
+          const dirPath = resolve(this.context.cwd, getGlobBase(path));
+          paths.push({ path: dirPath, directory: true, recursive: path.includes('**') });
+        } else {
+          paths.push({ path: resolve(this.context.cwd, path), directory: false });
+        }
+      } else if (source.type === 'directory') {
+        // Kubernetes swaps the ..data symlink atomically, which shows up as a rename in the directory
+        const dirPath = resolve(this.context.cwd, source.path);
+        paths.push({ path: dirPath, directory: true });
+      }
+    }
+
+    // Files pulled in through $extends / $include
+    const known = new Set(paths.map((target) => target.path));
+    for (const filePath of this.files) {
+      if (!known.has(filePath)) {
+        paths.push({ path: filePath, directory: false });
       }
     }
 
@@ -228,16 +740,7 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
    * Get active sources based on profile
    */
   private getActiveSources(): Source[] {
-    const { sources = [], profile = 'default', profiles } = this.options;
-
-    if (profiles && profile in profiles) {
-      const profileConfig = profiles[profile];
-      if (profileConfig?.sources) {
-        return profileConfig.sources;
-      }
-    }
-
-    return sources;
+    return resolveSources(this.options, this.context).sources;
   }
 
   /**
@@ -292,20 +795,10 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
 
         if (oldVal === newVal) continue;
 
-        if (
-          oldVal !== null &&
-          newVal !== null &&
-          typeof oldVal === 'object' &&
-          typeof newVal === 'object' &&
-          !Array.isArray(oldVal) &&
-          !Array.isArray(newVal)
-        ) {
-          compare(
-            oldVal as Record<string, unknown>,
-            newVal as Record<string, unknown>,
-            path
-          );
-        } else {
+        // Dates and other class instances are values, not objects to walk into
+        if (isPlainObject(oldVal) && isPlainObject(newVal)) {
+          compare(oldVal, newVal, path);
+        } else if (!isEqualValue(oldVal, newVal)) {
           changed.push(path);
         }
       }
@@ -326,79 +819,217 @@ export class Config<TSchema extends z.ZodType, TData = z.infer<TSchema>> {
     options: ConfigOptions<TSchema>
   ): Promise<Config<TSchema>> {
     const cwd = options.cwd ?? process.cwd();
-    const profile = options.profile ?? 'default';
+    const { profile, dimensions } = detectProfile(options, process.env);
 
     const context: LoaderContext = {
       profile,
       cwd,
       env: process.env,
+      dimensions,
     };
 
-    const { data, provenance } = await loadConfig(options, context);
+    let loaded: LoadResult<TSchema>;
+    let restored = false;
+    const sourceHealth = new Map<Source, SourceHealth>();
+    const refCache: SecretRefCache = new Map();
+    const pluginUsage: PluginUsage = new Map();
 
-    return new Config<TSchema>(
-      data as z.infer<TSchema>,
-      provenance,
-      options,
-      context
-    );
+    try {
+      loaded = await loadConfig(options, context, {
+        health: sourceHealth,
+        report: (event) => options.onSourceEvent?.(event),
+      }, refCache, pluginUsage);
+    } catch (error) {
+      const snapshot = options.snapshot
+        ? await loadSnapshot(options.snapshot, options, context, refCache, pluginUsage)
+        : undefined;
+      if (!snapshot) {
+        await Promise.all([...pluginUsage.keys()].map((plugin) => releasePlugin(plugin).catch(() => undefined)));
+        throw error;
+      }
+      loaded = snapshot;
+      restored = true;
+    }
+
+    const config = new Config<TSchema>(loaded, options, context, sourceHealth, refCache, pluginUsage);
+
+    config.restoredFromSnapshot = restored;
+    if (!restored) {
+      config.saveSnapshot(config.data);
+    }
+
+    return config;
   }
 }
 
 /**
- * Load configuration from all sources
+ * Data loaded from a single source
+ */
+interface LoadedConfig {
+  data: Record<string, unknown>;
+  source: string;
+  /** Per-path source descriptions reported by the loader */
+  paths?: Map<string, string>;
+  /**
+   * Secrets in the data: all of it (plugin sources) or the values at `paths`
+   * (env secret files). Left out of snapshots saved without a key.
+   */
+  secrets?: 'data' | 'paths';
+}
+
+/**
+ * Data loaded from all sources, with what watch mode needs to know about them
+ */
+interface LoadedSources {
+  layers: LoadedConfig[];
+  /** Files read, for watch mode */
+  files: Set<string>;
+  /** Validators of HTTP sources, for polling */
+  validators: Map<string, HttpValidators>;
+  /** Values of the secret references in the merged sources, by URI */
+  references: Map<string, unknown>;
+}
+
+/**
+ * Sources loaded and validated into a config
+ */
+interface LoadResult<TSchema extends z.ZodType> extends LoadedSources {
+  data: z.infer<TSchema>;
+  provenance: Map<string, ValueProvenance>;
+}
+
+/**
+ * State shared with loaders while loading a single source
+ */
+interface SourceLoadState {
+  /** Schema used for coercion and explicit env mappings */
+  schema: z.ZodType;
+  /** Per-path source descriptions reported by the loader */
+  paths: Map<string, string>;
+  /** Files read by the loader, for watch mode */
+  files: Set<string>;
+  /** Validators reported by HTTP sources, for polling */
+  validators: Map<string, HttpValidators>;
+  /** Plugins passed in the config options, used before the global registry */
+  plugins?: Plugin[] | undefined;
+  /** Plugins initialized for the config */
+  pluginUsage: PluginUsage;
+  /** Retries, circuit breakers and fallbacks of plugin and HTTP sources */
+  guard: SourceGuard;
+}
+
+/**
+ * Load data from all sources and build the config, with `overrides` on top
  */
 async function loadConfig<TSchema extends z.ZodType>(
   options: ConfigOptions<TSchema>,
-  context: LoaderContext
-): Promise<{ data: z.infer<TSchema>; provenance: Map<string, ValueProvenance> }> {
-  const { schema, sources = [], profile = 'default', profiles } = options;
+  context: LoaderContext,
+  guard: SourceGuard,
+  refCache: SecretRefCache,
+  pluginUsage: PluginUsage,
+  overrides: LoadedConfig[] = []
+): Promise<LoadResult<TSchema>> {
+  const { schema } = options;
 
   // Determine which sources to use
-  let activeSources = sources;
-  let defaults: Record<string, unknown> = {};
-
-  if (profiles && profile in profiles) {
-    const profileConfig = profiles[profile];
-    if (profileConfig?.sources) {
-      activeSources = profileConfig.sources;
-    }
-    if (profileConfig?.defaults) {
-      defaults = profileConfig.defaults;
-    }
-  }
+  const { sources: activeSources, defaults } = resolveSources(options, context);
 
   // Load all sources
-  const loadedConfigs: Array<{ data: Record<string, unknown>; source: string }> = [];
+  const loadedConfigs: LoadedConfig[] = [];
 
   // Add defaults first
   if (Object.keys(defaults).length > 0) {
     loadedConfigs.push({ data: defaults, source: 'profile defaults' });
   }
 
+  // Files read by file sources and validators of HTTP sources, for watch mode
+  const files = new Set<string>();
+  const validators = new Map<string, HttpValidators>();
+
   // Load each source
   for (const source of activeSources) {
-    const data = await loadSource(source, context);
+    const paths = new Map<string, string>();
+    const data = await loadSource(source, context, {
+      schema,
+      paths,
+      files,
+      validators,
+      plugins: options.plugins,
+      pluginUsage,
+      guard,
+    });
     if (data && Object.keys(data).length > 0) {
-      loadedConfigs.push({ data, source: formatSourceName(source) });
+      const layer: LoadedConfig = { data, source: formatSourceName(source), paths };
+      if (source.type === 'plugin') layer.secrets = 'data';
+      if (source.type === 'env' && source.secretFiles) layer.secrets = 'paths';
+      loadedConfigs.push(layer);
     }
   }
 
-  // Merge all configs (later sources override earlier)
-  const merged = deepMerge<Record<string, unknown>>(
-    ...loadedConfigs.map((c) => c.data)
-  );
+  const layers = [...loadedConfigs, ...overrides];
+  const interpolated = interpolateLayers(layers, options, context);
+  const references = await resolveConfigRefs(interpolated, options, context, refCache, pluginUsage);
+
+  return {
+    layers: loadedConfigs,
+    files,
+    validators,
+    references,
+    ...buildConfig(layers, interpolated, options, context, references),
+  };
+}
 
-  // Interpolate variables (${VAR} syntax)
-  const interpolated = interpolate(merged, {
-    env: context.env as Record<string, string | undefined>,
+/**
+ * Resolve the secret references in the merged, interpolated data, so overridden ones are never fetched.
+ * References with a value in `known` are not resolved again.
+ */
+async function resolveConfigRefs<TSchema extends z.ZodType>(
+  interpolated: Record<string, unknown>,
+  options: ConfigOptions<TSchema>,
+  context: LoaderContext,
+  refCache: SecretRefCache,
+  pluginUsage: PluginUsage,
+  known: Map<string, unknown> = new Map()
+): Promise<Map<string, unknown>> {
+  const pending = [...findSecretRefs(interpolated).values()].filter((reference) => !known.has(reference.uri));
+  const resolved = await resolveSecretRefs(pending, {
+    findPlugin: (name) => findPlugin(name, options.plugins),
+    usePlugin: (plugin) => usePlugin(pluginUsage, plugin, context),
+    context,
+    cache: refCache,
+    cacheTtl: options.secretRefs?.cacheTtl,
   });
+  return new Map([...known, ...resolved]);
+}
+
+/**
+ * Resolve secret references, decrypt and validate the merged, interpolated data of the layers
+ */
+function buildConfig<TSchema extends z.ZodType>(
+  loadedConfigs: LoadedConfig[],
+  interpolated: Record<string, unknown>,
+  options: ConfigOptions<TSchema>,
+  context: LoaderContext,
+  references: Map<string, unknown>
+): {
+  data: z.infer<TSchema>;
+  provenance: Map<string, ValueProvenance>;
+} {
+  const { schema } = options;
+
+  // Replace ref+<plugin>://... values with those resolved while loading
+  const refs = findSecretRefs(interpolated);
+  const resolved = refs.size > 0 ? substituteSecretRefs(interpolated, references) : interpolated;
 
   // Decrypt encrypted values if enabled
-  const decrypted = decryptConfig(interpolated, options.decrypt, context);
+  const decrypted = decryptConfig(resolved, options.decrypt, context);
 
   // Track provenance
   const provenance = trackProvenance(loadedConfigs);
+  for (const [path, reference] of refs) {
+    const entry = provenance.get(path);
+    if (entry) entry.source = `${entry.source} -> ${reference.uri}`;
+  }
 
   // Validate with schema
   const result = schema.safeParse(decrypted);
@@ -410,6 +1041,145 @@ async function loadConfig<TSchema extends z.ZodType>(
   return { data: result.data, provenance };
 }
 
+/**
+ * Compare values by value, such as arrays and dates, which validation rebuilds on every load
+ */
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqualValue(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && isEqualValue(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Merge the data of loaded sources, without interpolating or validating it
+ */
+function mergeLayers(layers: LoadedConfig[]): Record<string, unknown> {
+  return deepMerge<Record<string, unknown>>(...layers.map((layer) => layer.data));
+}
+
+/**
+ * Keep the keys of merged source data that are present in the validated config.
+ * Drops what the schema stripped, such as unrelated environment variables.
+ */
+function pickValidatedPaths(merged: Record<string, unknown>, validated: unknown): Record<string, unknown> {
+  if (!isPlainObject(validated)) return {};
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(merged)) {
+    if (!(key in validated)) continue;
+    result[key] = isPlainObject(value) && isPlainObject(validated[key])
+      ? pickValidatedPaths(value, validated[key])
+      : value;
+  }
+  return result;
+}
+
+/**
+ * The layers without their secrets, for snapshots that cannot be encrypted
+ */
+function withoutSecrets(layers: LoadedConfig[]): LoadedConfig[] {
+  return layers.flatMap((layer) => {
+    if (layer.secrets === 'data') return [];
+    if (layer.secrets !== 'paths' || !layer.paths?.size) return [layer];
+
+    const data = structuredClone(layer.data);
+    for (const path of layer.paths.keys()) {
+      const parts = path.split('.');
+      const parent = parts.length > 1 ? getByPath(data, parts.slice(0, -1).join('.')) : data;
+      if (isPlainObject(parent)) delete parent[parts[parts.length - 1]!];
+    }
+    return [{ ...layer, data }];
+  });
+}
+
+/**
+ * Merge the data of loaded sources and interpolate variables (${VAR} syntax)
+ */
+function interpolateLayers<TSchema extends z.ZodType>(
+  layers: LoadedConfig[],
+  options: ConfigOptions<TSchema>,
+  context: LoaderContext
+): Record<string, unknown> {
+  return interpolate(mergeLayers(layers), {
+    ...options.interpolation,
+    env: context.env as Record<string, string | undefined>,
+  });
+}
+
+/**
+ * Build a config from the last-known-good snapshot.
+ * Returns undefined when there is no usable snapshot.
+ */
+async function loadSnapshot<TSchema extends z.ZodType>(
+  snapshot: string,
+  options: ConfigOptions<TSchema>,
+  context: LoaderContext,
+  refCache: SecretRefCache,
+  pluginUsage: PluginUsage
+): Promise<LoadResult<TSchema> | undefined> {
+  const saved = readSnapshot(resolve(context.cwd, snapshot));
+  if (!saved) return undefined;
+
+  try {
+    const key = getDecryptionKey(options.decrypt, context);
+    let data = saved.data;
+    if (typeof data === 'string') {
+      // Encrypted with a key that is no longer configured
+      if (!key) return undefined;
+      data = JSON.parse(decryptValue(data, key)) as Record<string, unknown>;
+    }
+    const layers: LoadedConfig[] = [{ data, source: `snapshot: ${snapshot}` }];
+
+    // The snapshot holds secret references; their values are only fetched if they were not stored
+    const stored = new Map<string, unknown>();
+    if (key) {
+      for (const [uri, value] of Object.entries(saved.references)) {
+        stored.set(uri, JSON.parse(decryptValue(value, key)));
+      }
+    }
+
+    const interpolated = interpolateLayers(layers, options, context);
+    const references = await resolveConfigRefs(interpolated, options, context, refCache, pluginUsage, stored);
+    return {
+      layers,
+      files: new Set(),
+      validators: new Map(),
+      references,
+      ...buildConfig(layers, interpolated, options, context, references),
+    };
+  } catch {
+    // A snapshot that no longer matches the schema is not usable
+    return undefined;
+  }
+}
+
+/**
+ * Build the top-priority layer holding runtime overrides
+ */
+function createOverrideLayer(overrides: RuntimeOverride[]): LoadedConfig[] {
+  if (overrides.length === 0) return [];
+
+  let data: Record<string, unknown> = {};
+  const paths = new Map<string, string>();
+
+  for (const { path, value } of overrides) {
+    const layer: Record<string, unknown> = {};
+    setByPath(layer, path, value);
+    // Merging (rather than setting in place) never mutates the caller's objects
+    data = deepMerge(data, layer);
+    paths.set(path, OVERRIDE_SOURCE);
+  }
+
+  return [{ data, source: OVERRIDE_SOURCE, paths }];
+}
+
 /**
  * Decrypt encrypted values in config if decryption is enabled
  */
@@ -423,33 +1193,40 @@ function decryptConfig(
     return config;
   }
 
-  // Determine if decryption should happen
-  let key: string | undefined;
+  const key = getDecryptionKey(decrypt, context);
+
+  // If no key available, return config as-is (encrypted values will fail validation)
+  if (!key) {
+    return config;
+  }
+
+  // Decrypt all encrypted values
+  return decryptObject(config, { key });
+}
 
+/**
+ * Key used to decrypt encrypted values, or undefined if decryption is disabled or no key is set
+ */
+function getDecryptionKey(
+  decrypt: boolean | DecryptionConfig | undefined,
+  context: LoaderContext
+): string | undefined {
   if (decrypt === false) {
     // Explicitly disabled
-    return config;
+    return undefined;
   } else if (decrypt === true) {
     // Use env var
-    key = context.env.ZONFIG_ENCRYPTION_KEY;
+    return context.env.ZONFIG_ENCRYPTION_KEY;
   } else if (typeof decrypt === 'object') {
     // Check enabled flag
     if (decrypt.enabled === false) {
-      return config;
+      return undefined;
     }
-    key = decrypt.key ?? context.env.ZONFIG_ENCRYPTION_KEY;
-  } else {
-    // decrypt is undefined - auto-detect from env
-    key = context.env.ZONFIG_ENCRYPTION_KEY;
+    return decrypt.key ?? context.env.ZONFIG_ENCRYPTION_KEY;
   }
 
-  // If no key available, return config as-is (encrypted values will fail validation)
-  if (!key) {
-    return config;
-  }
-
-  // Decrypt all encrypted values
-  return decryptObject(config, { key });
+  // decrypt is undefined - auto-detect from env
+  return context.env.ZONFIG_ENCRYPTION_KEY;
 }
 
 /**
@@ -457,39 +1234,92 @@ function decryptConfig(
  */
 async function loadSource(
   source: Source,
-  context: LoaderContext
+  context: LoaderContext,
+  state: SourceLoadState
 ): Promise<Record<string, unknown>> {
+  const { schema, paths, files, validators, plugins, pluginUsage, guard } = state;
+
   switch (source.type) {
     case 'env': {
       const loader = new EnvLoader();
-      const options: { prefix?: string; separator?: string } = {};
+      const options: EnvLoaderOptions = { schema, sources: paths };
       if (source.prefix !== undefined) options.prefix = source.prefix;
       if (source.separator !== undefined) options.separator = source.separator;
+      if (source.secretFiles !== undefined) options.secretFiles = source.secretFiles;
       return loader.load(options, context);
     }
 
     case 'file': {
       const loader = new FileLoader();
-      const options: {
-        path: string;
-        format?: 'json' | 'yaml' | 'dotenv' | 'auto';
-        optional?: boolean;
-      } = { path: source.path };
+      const options: FileLoaderOptions = { path: source.path, schema, files, sources: paths };
       if (source.format !== undefined) options.format = source.format;
       if (source.optional !== undefined) options.optional = source.optional;
+      if (source.glob !== undefined) options.glob = source.glob;
       return loader.load(options, context);
     }
 
+    case 'directory': {
+      const loader = new DirectoryLoader();
+      return loader.load(
+        { path: source.path, optional: source.optional ?? false, schema },
+        context
+      );
+    }
+
+    case 'argv': {
+      const loader = new ArgvLoader();
+      const options: ArgvLoaderOptions = { schema, sources: paths };
+      if (source.args !== undefined) options.args = source.args;
+      return loader.load(options, context);
+    }
+
+    case 'http': {
+      const loader = new HttpLoader();
+      const name = formatSourceName(source);
+      // The loader applies the timeout and retries to each request, and reports them
+      const report = (event: HttpRequestEvent) => guard.report({ type: 'source', source: name, ...event });
+      const loaded = await loadGuarded(
+        source,
+        name,
+        () => loader.load({ ...toHttpLoaderOptions(source), validators, report }, context),
+        { retries: 0, retryDelay: 0 },
+        guard
+      );
+      return loaded.data;
+    }
+
     case 'object': {
       return source.data;
     }
 
     case 'plugin': {
-      const plugin = getPlugin(source.name);
+      const plugin = findPlugin(source.name, plugins);
       if (!plugin) {
         throw new PluginNotFoundError(source.name);
       }
-      return plugin.load(source.options ?? {}, context);
+      const options = validatePluginOptions(plugin, source);
+      const attempts: AttemptOptions = { retries: source.retries ?? 0, retryDelay: source.retryDelay ?? 200 };
+      if (source.timeout !== undefined) attempts.timeout = source.timeout;
+
+      const loaded = await loadGuarded(
+        source,
+        formatSourceName(source),
+        async (signal, attemptPaths) => {
+          await usePlugin(pluginUsage, plugin, context);
+          return plugin.load(options, {
+            ...context,
+            setSource: (path, description) => attemptPaths.set(path, description),
+            signal,
+          });
+        },
+        attempts,
+        guard
+      );
+      // Also restores the descriptions of cached data served as a fallback
+      for (const [path, description] of loaded.paths) {
+        paths.set(path, description);
+      }
+      return loaded.data;
     }
 
     default:
@@ -497,6 +1327,61 @@ async function loadSource(
   }
 }
 
+/**
+ * Plugins a config initialized, with the promise of their init()
+ */
+type PluginUsage = Map<Plugin, Promise<void>>;
+
+/**
+ * Initialize a plugin the first time a config uses it
+ */
+function usePlugin(usage: PluginUsage, plugin: Plugin, context: LoaderContext): Promise<void> {
+  let ready = usage.get(plugin);
+  if (!ready) {
+    ready = acquirePlugin(plugin, context);
+    usage.set(plugin, ready);
+    ready.catch(() => usage.delete(plugin));
+  }
+  return ready;
+}
+
+/**
+ * Find a plugin by name in the config's plugins, then in the global registry
+ */
+function findPlugin(name: string, plugins: Plugin[] | undefined): Plugin | undefined {
+  return plugins?.find((plugin) => plugin.name === name) ?? getPlugin(name);
+}
+
+/**
+ * Validate the options of a plugin source against the plugin's optionsSchema
+ */
+function validatePluginOptions(plugin: Plugin, source: PluginSource): Record<string, unknown> {
+  const options = (source.options ?? {}) as Record<string, unknown>;
+  if (!plugin.optionsSchema) return options;
+
+  const result = plugin.optionsSchema.safeParse(options);
+  if (!result.success) {
+    throw new PluginOptionsError(plugin.name, result.error);
+  }
+  return result.data;
+}
+
+/**
+ * Get HTTP loader options from an HTTP source
+ */
+function toHttpLoaderOptions(source: HttpSource): HttpLoaderOptions {
+  const options: HttpLoaderOptions = { url: source.url };
+  if (source.format !== undefined) options.format = source.format;
+  if (source.headers !== undefined) options.headers = source.headers;
+  if (source.auth !== undefined) options.auth = source.auth;
+  if (source.timeout !== undefined) options.timeout = source.timeout;
+  if (source.retries !== undefined) options.retries = source.retries;
+  if (source.retryDelay !== undefined) options.retryDelay = source.retryDelay;
+  if (source.optional !== undefined) options.optional = source.optional;
+  if (source.cache !== undefined) options.cache = source.cache;
+  return options;
+}
+
 /**
  * Format source name for error messages
  */
@@ -508,6 +1393,12 @@ function formatSourceName(source: Source): string {
         : 'environment variables';
     case 'file':
       return `file: ${source.path}`;
+    case 'directory':
+      return `directory: ${source.path}`;
+    case 'argv':
+      return 'command-line arguments';
+    case 'http':
+      return formatHttpSource(source.url);
     case 'object':
       return 'object';
     case 'plugin':
@@ -520,21 +1411,22 @@ function formatSourceName(source: Source): string {
 /**
  * Track which source each value came from
  */
-function trackProvenance(
-  configs: Array<{ data: Record<string, unknown>; source: string }>
-): Map<string, ValueProvenance> {
+function trackProvenance(configs: LoadedConfig[]): Map<string, ValueProvenance> {
   const provenance = new Map<string, ValueProvenance>();
 
   function traverse(
     obj: Record<string, unknown>,
-    source: string,
+    defaultSource: string,
+    paths: Map<string, string> | undefined,
     prefix: string = ''
   ): void {
     for (const [key, value] of Object.entries(obj)) {
       const path = prefix ? `${prefix}.${key}` : key;
+      // A loader may describe a path (and everything below it) more precisely
+      const source = paths?.get(path) ?? defaultSource;
 
-      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-        traverse(value as Record<string, unknown>, source, path);
+      if (isPlainObject(value)) {
+        traverse(value as Record<string, unknown>, source, paths, path);
       } else {
         provenance.set(path, {
           path,
@@ -548,12 +1440,23 @@ function trackProvenance(
 
   // Process in order (later sources override earlier)
   for (const config of configs) {
-    traverse(config.data, config.source);
+    traverse(config.data, config.source, config.paths);
   }
 
   return provenance;
 }
 
+/**
+ * Check whether two sets contain the same values
+ */
+function sameSet<T>(a: Set<T>, b: Set<T>): boolean {
+  if (a.size !== b.size) return false;
+  for (const value of a) {
+    if (!b.has(value)) return false;
+  }
+  return true;
+}
+
 /**
  * Configuration container that loads on first access.
  * This ensures environment variables are read at runtime, not at module initialization.
@@ -592,6 +1495,18 @@ export class ConfigContainer<TSchema extends z.ZodType> {
     return config.getMasked();
   }
 
+  /**
+   * Override a value at runtime
+   * Returns a function that removes the override
+   */
+  async override<P extends PathsOf<z.infer<TSchema>>>(
+    path: P,
+    value: ValueAt<z.infer<TSchema>, P>
+  ): Promise<() => void> {
+    const config = await this.load();
+    return config.override(path, value);
+  }
+
   /**
    * Get the underlying Config instance
    * Loads if not already loaded
@@ -617,12 +1532,30 @@ export class ConfigContainer<TSchema extends z.ZodType> {
 
   /**
    * Force reload the configuration from sources
-   * Useful when environment variables have changed
+   * Useful when environment variables have changed.
+   * The previous Config instance is closed: it stops watching and releases its plugins.
    */
   async reload(): Promise<Config<TSchema>> {
+    const previous = this.config;
+    this.config = null;
+    this.loading = null;
+
+    try {
+      return await this.load();
+    } finally {
+      await previous?.close();
+    }
+  }
+
+  /**
+   * Close the loaded Config: stop watching and release its plugins.
+   * The next access loads the configuration again.
+   */
+  async close(): Promise<void> {
+    const config = this.config ?? await this.loading?.catch(() => null);
     this.config = null;
     this.loading = null;
-    return this.load();
+    await config?.close();
   }
 
   /**
@@ -0,0 +1,146 @@
+import type { ConfigOptions, LoaderContext, ProfileConfig, Source } from './types.js';
+import { deepMerge } from '../utils/deep-merge.js';
+import { CircularProfileError, ProfileNotFoundError } from '../errors/validation.js';
+
+/**
+ * Sources and defaults of the active profile
+ */
+export interface ResolvedProfile {
+  sources: Source[];
+  defaults: Record<string, unknown>;
+}
+
+/**
+ * Profile name and dimension values in effect for a config instance
+ */
+export interface DetectedProfile {
+  profile: string;
+  dimensions: Record<string, string>;
+}
+
+/**
+ * Determine the active profile.
+ *
+ * A string `profile` option is used as-is. Without one, the profile is read
+ * from `ZONFIG_PROFILE`, then `NODE_ENV`, falling back to 'default'.
+ * Each dimension in `dimensions` takes its value from the `profile` object,
+ * or from `ZONFIG_PROFILE_<DIMENSION>` when the object does not set it.
+ * With an object `profile`, the profile name is its values joined with '-'
+ * (`{ env: 'prod', region: 'eu' }` -> 'prod-eu').
+ */
+export function detectProfile(
+  options: Pick<ConfigOptions<never>, 'profile' | 'dimensions'>,
+  env: NodeJS.ProcessEnv
+): DetectedProfile {
+  const selection = typeof options.profile === 'object' ? options.profile : {};
+  const dimensions: Record<string, string> = { ...selection };
+
+  for (const dimension of Object.keys(options.dimensions ?? {})) {
+    const value = dimensions[dimension] ?? env[`ZONFIG_PROFILE_${dimension.toUpperCase()}`];
+    if (value !== undefined && value !== '') {
+      dimensions[dimension] = value;
+    }
+  }
+
+  const profile = typeof options.profile === 'object'
+    ? Object.values(selection).join('-') || 'default'
+    : options.profile ?? (env.ZONFIG_PROFILE || env.NODE_ENV || 'default');
+
+  return { profile, dimensions };
+}
+
+/**
+ * Resolve the sources and defaults for the active profile and dimensions.
+ *
+ * Layers are applied in a fixed order: the top-level sources (or the
+ * `profiles` entry, for a string profile), then each dimension in the order
+ * `dimensions` declares them. Later layers override earlier ones.
+ */
+export function resolveSources(
+  options: Pick<ConfigOptions<never>, 'sources' | 'profile' | 'profiles' | 'dimensions'>,
+  context: Pick<LoaderContext, 'profile' | 'dimensions'>
+): ResolvedProfile {
+  const base = typeof options.profile === 'object'
+    ? { sources: options.sources ?? [], defaults: {} }
+    : resolveProfile(options, context.profile);
+
+  let { sources, defaults } = base;
+
+  for (const [dimension, profiles] of Object.entries(options.dimensions ?? {})) {
+    const value = context.dimensions?.[dimension];
+    if (value === undefined || !(value in profiles)) continue;
+
+    const layer = resolveChain(profiles, value, []);
+    sources = [...sources, ...layer.sources];
+    defaults = deepMerge(defaults, layer.defaults);
+  }
+
+  return { sources, defaults };
+}
+
+/**
+ * Resolve the sources and defaults for a profile, following `extends` chains.
+ *
+ * A profile that extends another inherits its sources and defaults:
+ * its own sources are appended (so they override the parent's values)
+ * and its defaults are deep-merged over the parent's.
+ * A profile without `extends` and without sources uses the top-level sources.
+ */
+export function resolveProfile(
+  options: Pick<ConfigOptions<never>, 'sources' | 'profiles'>,
+  profile: string
+): ResolvedProfile {
+  const { sources = [], profiles } = options;
+
+  if (!profiles || !(profile in profiles)) {
+    return { sources, defaults: {} };
+  }
+
+  return resolveChain(profiles, profile, sources);
+}
+
+/**
+ * Follow the `extends` chain of a profile within one set of profiles.
+ * A root profile without sources uses `baseSources`.
+ */
+function resolveChain(
+  profiles: Record<string, ProfileConfig>,
+  profile: string,
+  baseSources: Source[]
+): ResolvedProfile {
+  // Walk up the chain: [profile, parent, grandparent, ...]
+  const chain: Array<{ name: string; config: ProfileConfig }> = [];
+  let name: string | undefined = profile;
+
+  while (name !== undefined) {
+    if (chain.some((entry) => entry.name === name)) {
+      throw new CircularProfileError([...chain.map((entry) => entry.name), name]);
+    }
+
+    const config: ProfileConfig | undefined = profiles[name];
+    if (!config) {
+      throw new ProfileNotFoundError(name, chain[chain.length - 1]?.name);
+    }
+
+    chain.push({ name, config });
+    name = config.extends;
+  }
+
+  // Apply from the root of the chain down to the selected profile
+  chain.reverse();
+
+  const root = chain[0]!.config;
+  let resolvedSources = root.sources ?? baseSources;
+  let defaults: Record<string, unknown> = root.defaults ?? {};
+
+  for (const { config } of chain.slice(1)) {
+    if (config.sources) {
+      resolvedSources = [...resolvedSources, ...config.sources];
+    }
+    if (config.defaults) {
+      defaults = deepMerge(defaults, config.defaults);
+    }
+  }
+
+  return { sources: resolvedSources, defaults };
+}
@@ -0,0 +1,190 @@
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import type { LoaderContext } from './types.js';
+import type { Plugin, SecretReference } from '../plugins/types.js';
+import { SecretReferenceError } from '../errors/validation.js';
+import { getByPath, isPlainObject } from '../utils/deep-merge.js';
+
+/**
+ * `ref+<scheme>://<location>?<params>#<key>`
+ */
+const SECRET_REF_PATTERN = /^ref\+([a-z][a-z0-9-]*):\/\/([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/;
+
+/**
+ * Default time resolved values are reused, in milliseconds
+ */
+const DEFAULT_CACHE_TTL = 300000;
+
+/**
+ * Resolved values by reference URI, shared by the loads of one config
+ */
+export type SecretRefCache = Map<string, { value: unknown; expiresAt: number }>;
+
+/**
+ * What resolving references needs from the config
+ */
+export interface SecretRefResolution {
+  /** Finds the plugin resolving a scheme */
+  findPlugin: (name: string) => Plugin | undefined;
+  /** Initializes a plugin before its first use by the config */
+  usePlugin?: (plugin: Plugin) => Promise<void>;
+  context: LoaderContext;
+  cache: SecretRefCache;
+  /** How long resolved values are cached, in milliseconds */
+  cacheTtl?: number | undefined;
+}
+
+/**
+ * Parse a `ref+<scheme>://...` string. Returns undefined for other values.
+ */
+export function parseSecretRef(value: string): SecretReference | undefined {
+  const match = SECRET_REF_PATTERN.exec(value);
+  if (!match) return undefined;
+
+  const [, scheme, location, query, key] = match;
+  const reference: SecretReference = {
+    uri: value,
+    scheme: scheme!,
+    location: decodeURIComponent(location!),
+    params: Object.fromEntries(new URLSearchParams(query ?? '')),
+  };
+  if (key !== undefined) reference.key = decodeURIComponent(key);
+
+  return reference;
+}
+
+/**
+ * Find the secret references in a config, by the path holding them
+ */
+export function findSecretRefs(config: Record<string, unknown>): Map<string, SecretReference> {
+  const found = new Map<string, SecretReference>();
+
+  function traverse(value: unknown, path: string): void {
+    if (typeof value === 'string') {
+      const reference = parseSecretRef(value);
+      if (reference) found.set(path, reference);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => traverse(item, `${path}.${index}`));
+    } else if (isPlainObject(value)) {
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        traverse(child, path ? `${path}.${key}` : key);
+      }
+    }
+  }
+
+  traverse(config, '');
+  return found;
+}
+
+/**
+ * Resolve references through the plugins named by their scheme.
+ * Each plugin receives all of its uncached references in a single `resolve()` call.
+ *
+ * @throws SecretReferenceError if a scheme has no resolver or resolving fails
+ */
+export async function resolveSecretRefs(
+  references: Iterable<SecretReference>,
+  resolution: SecretRefResolution
+): Promise<Map<string, unknown>> {
+  const { cache, cacheTtl = DEFAULT_CACHE_TTL } = resolution;
+  const now = Date.now();
+  const resolved = new Map<string, unknown>();
+
+  // Unique uncached references, grouped by scheme
+  const pending = new Map<string, Map<string, SecretReference>>();
+
+  for (const reference of references) {
+    const cached = cache.get(reference.uri);
+    if (cached && cached.expiresAt > now) {
+      resolved.set(reference.uri, cached.value);
+      continue;
+    }
+    cache.delete(reference.uri);
+
+    const batch = pending.get(reference.scheme) ?? new Map<string, SecretReference>();
+    batch.set(reference.uri, reference);
+    pending.set(reference.scheme, batch);
+  }
+
+  await Promise.all([...pending].map(async ([scheme, batch]) => {
+    const batchRefs = [...batch.values()];
+    const uris = batchRefs.map((reference) => reference.uri);
+
+    const plugin = resolution.findPlugin(scheme);
+    const resolveBatch = plugin?.resolve?.bind(plugin) ?? (scheme === 'file' ? resolveFileRefs : undefined);
+    if (!resolveBatch) {
+      throw new SecretReferenceError(uris, `No plugin named "${scheme}" resolves references`);
+    }
+
+    let values: unknown[];
+    try {
+      if (plugin?.resolve) await resolution.usePlugin?.(plugin);
+      values = await resolveBatch(batchRefs, resolution.context);
+    } catch (error) {
+      throw new SecretReferenceError(uris, error instanceof Error ? error.message : String(error));
+    }
+    if (values.length !== batchRefs.length) {
+      throw new SecretReferenceError(uris, `Plugin "${scheme}" returned ${values.length} values for ${batchRefs.length} references`);
+    }
+
+    batchRefs.forEach((reference, index) => {
+      resolved.set(reference.uri, values[index]);
+      if (cacheTtl > 0) {
+        cache.set(reference.uri, { value: values[index], expiresAt: now + cacheTtl });
+      }
+    });
+  }));
+
+  return resolved;
+}
+
+/**
+ * Replace secret references with their resolved values
+ *
+ * @throws SecretReferenceError for references that were not resolved
+ */
+export function substituteSecretRefs(
+  config: Record<string, unknown>,
+  resolved: Map<string, unknown>
+): Record<string, unknown> {
+  function substitute(value: unknown): unknown {
+    if (typeof value === 'string') {
+      if (!parseSecretRef(value)) return value;
+      if (!resolved.has(value)) {
+        throw new SecretReferenceError([value], 'The reference was not resolved while loading the sources');
+      }
+      return resolved.get(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(substitute);
+    }
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        result[key] = substitute(child);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  return substitute(config) as Record<string, unknown>;
+}
+
+/**
+ * Built-in resolver for `ref+file://` references: the trimmed contents of the file,
+ * or the value at `#key` of a JSON file. Relative paths are resolved from the cwd.
+ */
+async function resolveFileRefs(references: SecretReference[], context: LoaderContext): Promise<unknown[]> {
+  return Promise.all(references.map(async (reference) => {
+    const file = resolve(context.cwd, reference.location);
+    const contents = (await readFile(file, 'utf-8')).trim();
+    if (reference.key === undefined) return contents;
+
+    const value = getByPath(JSON.parse(contents) as Record<string, unknown>, reference.key);
+    if (value === undefined) {
+      throw new Error(`Key "${reference.key}" not found in ${file}`);
+    }
+    return value;
+  }));
+}
@@ -0,0 +1,229 @@
+import type { CircuitBreakerOptions, ConfigSourceEvent, RemoteSourceOptions, Source } from './types.js';
+import { CircuitOpenError, SourceTimeoutError } from '../errors/validation.js';
+
+/**
+ * Stops calling a source after too many consecutive failures.
+ * Closed while the source works; open after `threshold` failures in a row;
+ * half-open once `resetTimeout` has passed, letting one trial load through.
+ */
+export class CircuitBreaker {
+  private readonly threshold: number;
+  private readonly resetTimeout: number;
+  private openedAt: number | undefined;
+  private consecutiveFailures = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.threshold = options.threshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+  }
+
+  /**
+   * Consecutive failures so far
+   */
+  get failures(): number {
+    return this.consecutiveFailures;
+  }
+
+  /**
+   * Whether the source should not be called
+   */
+  isOpen(now = Date.now()): boolean {
+    return this.openedAt !== undefined && now - this.openedAt < this.resetTimeout;
+  }
+
+  /**
+   * Whether the circuit was open and the next load is a trial
+   */
+  isHalfOpen(now = Date.now()): boolean {
+    return this.openedAt !== undefined && !this.isOpen(now);
+  }
+
+  /**
+   * Record a successful load. Returns true if this closed the circuit.
+   */
+  recordSuccess(): boolean {
+    const wasOpen = this.openedAt !== undefined;
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    return wasOpen;
+  }
+
+  /**
+   * Record a failed load. Returns true if this (re)opened the circuit.
+   */
+  recordFailure(now = Date.now()): boolean {
+    this.consecutiveFailures++;
+
+    // A failed trial reopens the circuit right away
+    if (this.openedAt !== undefined || this.consecutiveFailures >= this.threshold) {
+      this.openedAt = now;
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Data loaded from a source, with the per-path source descriptions reported while loading it
+ */
+export interface GuardedLoad {
+  data: Record<string, unknown>;
+  paths: Map<string, string>;
+}
+
+/**
+ * Loads a source once. Per-path source descriptions are written to `paths`.
+ */
+export type GuardedLoader = (signal: AbortSignal, paths: Map<string, string>) => Promise<Record<string, unknown>>;
+
+/**
+ * Circuit breaker and last loaded data of a source
+ */
+export interface SourceHealth {
+  breaker?: CircuitBreaker;
+  cached?: GuardedLoad;
+}
+
+/**
+ * State kept across loads of the same config, and where to report what happened
+ */
+export interface SourceGuard {
+  health: Map<Source, SourceHealth>;
+  report: (event: ConfigSourceEvent) => void;
+}
+
+/**
+ * How often and how long to try a single load
+ */
+export interface AttemptOptions {
+  /** Milliseconds to wait for each attempt; no limit when omitted */
+  timeout?: number;
+  retries: number;
+  retryDelay: number;
+}
+
+/**
+ * Wait before the next retry
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reject with a SourceTimeoutError if the load does not settle in time,
+ * aborting the load's signal so it can cancel its requests
+ */
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number,
+  source: string,
+  controller: AbortController
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new SourceTimeoutError(source, timeout);
+      controller.abort(error);
+      reject(error);
+    }, timeout);
+  });
+
+  return Promise.race([promise, timedOut]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Load a source, retrying failed attempts with exponential backoff
+ */
+async function loadWithRetry(
+  source: string,
+  load: GuardedLoader,
+  options: AttemptOptions,
+  report: SourceGuard['report']
+): Promise<GuardedLoad> {
+  const { timeout, retries, retryDelay } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      // Each attempt reports into its own map, so a timed-out attempt cannot add to a later one
+      const controller = new AbortController();
+      const paths = new Map<string, string>();
+      const loading = Promise.resolve().then(() => load(controller.signal, paths));
+      const data = await (timeout !== undefined ? withTimeout(loading, timeout, source, controller) : loading);
+      return { data, paths: new Map(paths) };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+
+      if (err instanceof SourceTimeoutError) {
+        report({ type: 'source', source, action: 'timeout', error: err, attempt });
+      }
+      if (attempt > retries) throw err;
+
+      const delay = retryDelay * 2 ** (attempt - 1);
+      report({ type: 'source', source, action: 'retry', error: err, attempt, delay });
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Load a plugin or HTTP source with retries, its circuit breaker and its fallback.
+ * Every decision is reported as a `source` event.
+ * The cache fallback returns the per-path source descriptions along with the cached data.
+ */
+export async function loadGuarded(
+  source: Source & RemoteSourceOptions,
+  name: string,
+  load: GuardedLoader,
+  options: AttemptOptions,
+  guard: SourceGuard
+): Promise<GuardedLoad> {
+  const { report } = guard;
+
+  let health = guard.health.get(source);
+  if (!health) {
+    health = {};
+    if (source.circuitBreaker) {
+      health.breaker = new CircuitBreaker(source.circuitBreaker === true ? {} : source.circuitBreaker);
+    }
+    guard.health.set(source, health);
+  }
+
+  const { breaker } = health;
+  let error: Error;
+
+  if (breaker?.isOpen()) {
+    error = new CircuitOpenError(name, breaker.failures);
+  } else {
+    if (breaker?.isHalfOpen()) {
+      report({ type: 'source', source: name, action: 'circuit-half-open' });
+    }
+
+    try {
+      const loaded = await loadWithRetry(name, load, options, report);
+      if (breaker?.recordSuccess()) {
+        report({ type: 'source', source: name, action: 'circuit-close' });
+      }
+      health.cached = loaded;
+      return loaded;
+    } catch (err) {
+      error = err as Error;
+      if (breaker?.recordFailure()) {
+        report({ type: 'source', source: name, action: 'circuit-open', error });
+      }
+    }
+  }
+
+  const fallback = source.fallback ?? 'fail';
+
+  if (fallback === 'cache' && health.cached) {
+    report({ type: 'source', source: name, action: 'fallback', fallback, error });
+    return health.cached;
+  }
+  if (fallback === 'defaults') {
+    report({ type: 'source', source: name, action: 'fallback', fallback, error });
+    return { data: {}, paths: new Map() };
+  }
+
+  throw error;
+}
@@ -0,0 +1,52 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { isPlainObject } from '../utils/deep-merge.js';
+import { isEncrypted } from '../utils/encrypt.js';
+
+/**
+ * Data of a last-known-good snapshot
+ */
+export interface Snapshot {
+  /** The data, or its JSON encrypted with the decryption key */
+  data: Record<string, unknown> | string;
+  /** Encrypted values of the secret references in the data, by URI */
+  references: Record<string, string>;
+}
+
+/**
+ * Contents of a last-known-good snapshot file
+ */
+interface SnapshotFile extends Snapshot {
+  savedAt: string;
+}
+
+/**
+ * Read a snapshot file.
+ * Returns undefined when the file is missing or unreadable.
+ */
+export function readSnapshot(path: string): Snapshot | undefined {
+  if (!existsSync(path)) return undefined;
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8')) as Partial<SnapshotFile>;
+    const { data } = parsed;
+    if (!isPlainObject(data) && !isEncrypted(data)) return undefined;
+
+    const references = isPlainObject(parsed.references) ? parsed.references as Record<string, string> : {};
+    return { data: data as Snapshot['data'], references };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write a snapshot file atomically, readable by the owner only
+ */
+export function writeSnapshot(path: string, { data, references }: Snapshot): void {
+  const snapshot: SnapshotFile = { savedAt: new Date().toISOString(), data, references };
+  const tempPath = `${path}.${process.pid}.tmp`;
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(tempPath, JSON.stringify(snapshot, null, 2), { mode: 0o600 });
+  renameSync(tempPath, path);
+}
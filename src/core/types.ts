@@ -1,4 +1,6 @@
 import type { z } from 'zod';
+import type { Plugin } from '../plugins/types.js';
+import type { InterpolateOptions } from '../utils/interpolate.js';
 
 /**
  * Extract all possible dot-notation paths from a type
@@ -25,7 +27,7 @@ export type ValueAt<T, P extends string> = P extends `${infer K}.${infer Rest}`
 /**
  * Source types for configuration loading
  */
-export type SourceType = 'env' | 'file' | 'object' | 'plugin';
+export type SourceType = 'env' | 'file' | 'directory' | 'argv' | 'http' | 'object' | 'plugin';
 
 /**
  * Base source configuration
@@ -42,15 +44,128 @@ export interface EnvSource extends BaseSource {
   type: 'env';
   prefix?: string;
   separator?: string;
+  /**
+   * Read secrets from files (Docker/Kubernetes secrets):
+   * `DB_PASSWORD_FILE=/run/secrets/db_password` sets `DB_PASSWORD`
+   * to the trimmed contents of the file (default: false).
+   * Only variables whose `X` maps to a schema field are read as files.
+   */
+  secretFiles?: boolean;
 }
 
 /**
- * File source (JSON, YAML, .env)
+ * Supported config file formats.
+ * `module` is a TypeScript/JavaScript file whose default export is an object
+ * or a (sync or async) function receiving the `LoaderContext`.
+ */
+export type FileFormat = 'json' | 'json5' | 'jsonc' | 'yaml' | 'toml' | 'ini' | 'dotenv' | 'module';
+
+/**
+ * File source (JSON, JSON5/JSONC, YAML, TOML, INI, .env, TS/JS modules)
  */
 export interface FileSource extends BaseSource {
   type: 'file';
+  /**
+   * File path, or a glob pattern (`config/conf.d/*.yaml`) whose matches
+   * are merged in lexical order
+   */
   path: string;
-  format?: 'json' | 'yaml' | 'dotenv' | 'auto';
+  format?: FileFormat | 'auto';
+  /**
+   * Treat `path` as a glob pattern. By default, a path with glob syntax is only
+   * a pattern when no file exists at the literal path (`config[prod].json`)
+   */
+  glob?: boolean;
+}
+
+/**
+ * Directory source: every file is a key/value pair
+ * (Kubernetes ConfigMap/Secret volumes, /run/secrets)
+ */
+export interface DirectorySource extends BaseSource {
+  type: 'directory';
+  path: string;
+}
+
+/**
+ * Command-line argument source:
+ * `--server.port=8080`, `--server-port 8080`, `--debug`, `--no-debug`
+ */
+export interface ArgvSource extends BaseSource {
+  type: 'argv';
+  /** Arguments to parse (default: process.argv.slice(2)) */
+  args?: string[];
+}
+
+/**
+ * Authentication for HTTP sources
+ */
+export type HttpAuth =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string };
+
+/**
+ * What a plugin or HTTP source does when it still fails after its retries:
+ * `cache` uses the data it last loaded, `defaults` continues without it,
+ * `fail` fails the load
+ */
+export type SourceFallback = 'cache' | 'defaults' | 'fail';
+
+/**
+ * Circuit breaker for a plugin or HTTP source.
+ * Once the source failed `threshold` times in a row it is no longer called
+ * and its fallback is used; after `resetTimeout` a single trial load is let through.
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  threshold?: number;
+  /** Milliseconds before an open circuit lets a trial load through (default: 30000) */
+  resetTimeout?: number;
+}
+
+/**
+ * Failure handling for sources backed by a remote service (plugin and HTTP sources)
+ */
+export interface RemoteSourceOptions {
+  /** Milliseconds to wait for each load attempt (default: no limit for plugins, 10000 for HTTP) */
+  timeout?: number;
+  /** Retries after a failed load (default: 0 for plugins, 2 for HTTP) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled on each retry (default: 200) */
+  retryDelay?: number;
+  /**
+   * What to do when the source still fails after its retries (default: 'fail').
+   * The cache holds the data loaded by this config instance, so `cache`
+   * only helps on reloads.
+   */
+  fallback?: SourceFallback;
+  /** Stop calling the source after repeated failures: `true` for the default options (default: off) */
+  circuitBreaker?: CircuitBreakerOptions | boolean;
+}
+
+/**
+ * HTTP source: fetches JSON or YAML from a URL
+ */
+export interface HttpSource extends BaseSource, RemoteSourceOptions {
+  type: 'http';
+  url: string;
+  /** Response format (default: 'auto', from Content-Type, then the URL extension) */
+  format?: 'json' | 'yaml' | 'auto';
+  headers?: Record<string, string>;
+  auth?: HttpAuth;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+  /** Retries after a failed request (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled on each retry (default: 200) */
+  retryDelay?: number;
+  /**
+   * Poll for changes in watch mode, in milliseconds.
+   * Uses `If-None-Match` when the server sends an `ETag`.
+   */
+  pollInterval?: number;
+  /** File to cache the last response in, used when a fetch fails */
+  cache?: string;
 }
 
 /**
@@ -62,18 +177,49 @@ export interface ObjectSource extends BaseSource {
 }
 
 /**
- * Plugin source
+ * Options of each plugin, by plugin name.
+ * Augment it to type-check plugin sources at compile time:
+ *
+ * @example
+ * ```typescript
+ * declare module '@zonfig/zonfig' {
+ *   interface PluginOptionsMap {
+ *     vault: { address: string; path: string };
+ *   }
+ * }
+ * ```
+ *
+ * Once augmented, plugin sources must use one of the declared names.
+ */
+export interface PluginOptionsMap {}
+
+/**
+ * Source for a single plugin; `options` is required when the plugin has required options
  */
-export interface PluginSource extends BaseSource {
+export type PluginSourceFor<TName extends string, TOptions> = BaseSource & RemoteSourceOptions & {
   type: 'plugin';
-  name: string;
-  options?: Record<string, unknown>;
-}
+  name: TName;
+} & (Record<string, never> extends TOptions ? { options?: TOptions } : { options: TOptions });
+
+/**
+ * Plugin source.
+ * Options are untyped unless plugins are declared in `PluginOptionsMap`.
+ */
+export type PluginSource = [keyof PluginOptionsMap] extends [never]
+  ? PluginSourceFor<string, Record<string, unknown>>
+  : { [K in keyof PluginOptionsMap & string]: PluginSourceFor<K, PluginOptionsMap[K]> }[keyof PluginOptionsMap & string];
 
 /**
  * Union of all source types
  */
-export type Source = EnvSource | FileSource | ObjectSource | PluginSource;
+export type Source =
+  | EnvSource
+  | FileSource
+  | DirectorySource
+  | ArgvSource
+  | HttpSource
+  | ObjectSource
+  | PluginSource;
 
 /**
  * Context passed to loaders
@@ -82,6 +228,8 @@ export interface LoaderContext {
   profile: string;
   cwd: string;
   env: NodeJS.ProcessEnv;
+  /** Active value of each profile dimension: `{ env: 'prod', region: 'eu' }` */
+  dimensions?: Record<string, string>;
 }
 
 /**
@@ -106,6 +254,11 @@ export interface ValueProvenance {
  * Profile-specific configuration
  */
 export interface ProfileConfig {
+  /**
+   * Inherit sources and defaults from another profile.
+   * This profile's sources are appended and its defaults deep-merged over the parent's.
+   */
+  extends?: string;
   sources?: Source[];
   defaults?: Record<string, unknown>;
 }
@@ -120,17 +273,62 @@ export interface DecryptionConfig {
   key?: string;
 }
 
+/**
+ * Options for resolving `ref+<plugin>://...` secret references
+ */
+export interface SecretRefOptions {
+  /** How long resolved values are reused across reloads, in milliseconds (default: 300000; 0 disables caching) */
+  cacheTtl?: number;
+}
+
 /**
  * Main configuration options
  */
 export interface ConfigOptions<TSchema extends z.ZodType> {
   schema: TSchema;
   sources?: Source[];
-  profile?: string;
+  /**
+   * Active profile: a name from `profiles`, or one value per dimension
+   * (`{ env: 'prod', region: 'eu' }`).
+   * Default: `ZONFIG_PROFILE`, then `NODE_ENV`, then 'default'
+   */
+  profile?: string | Record<string, string>;
   profiles?: Record<string, ProfileConfig>;
+  /**
+   * Profiles per dimension: `{ env: { prod: {...} }, region: { eu: {...} } }`.
+   * Each dimension's selected profile is layered over the top-level sources
+   * in the order the dimensions are declared. A dimension not set in
+   * `profile` is read from `ZONFIG_PROFILE_<DIMENSION>`.
+   */
+  dimensions?: Record<string, Record<string, ProfileConfig>>;
   cwd?: string;
   /** Auto-decrypt encrypted values (ENC[...] format) */
   decrypt?: boolean | DecryptionConfig;
+  /** Interpolation of `${VAR}` references, e.g. `{ strict: true }` to fail on unresolved ones */
+  interpolation?: Omit<InterpolateOptions, 'env'>;
+  /** Resolution of `ref+<plugin>://...` secret references */
+  secretRefs?: SecretRefOptions;
+  /**
+   * File to persist the last config that loaded successfully.
+   * When the sources fail to load or validate at startup, the config boots
+   * from this snapshot instead. The snapshot holds the merged values of
+   * schema fields before decryption and the resolved secret references, all
+   * encrypted with the decryption key. Without a key, values from plugin
+   * sources and env secret files are left out, and references are resolved
+   * again on restore; protect the file like the config files themselves.
+   */
+  snapshot?: string;
+  /**
+   * Plugins available to this config's plugin sources.
+   * Looked up by name before the global registry, so configs can use
+   * differently configured plugins of the same name.
+   */
+  plugins?: Plugin[];
+  /**
+   * Receives `source` events from the initial load and from reloads.
+   * Once the config exists, they are also emitted to `on()` listeners.
+   */
+  onSourceEvent?: (event: ConfigSourceEvent) => void;
 }
 
 /**
@@ -153,10 +351,19 @@ export interface PluginDefinition<TOptions = Record<string, unknown>> {
 }
 
 /**
- * Schema metadata for documentation
+ * Schema field metadata, attached with `.meta()` (Zod 4)
+ *
+ * @example
+ * ```typescript
+ * z.string().meta({ env: ['DATABASE_URL', 'DB_URL'] })
+ * ```
  */
 export interface SchemaFieldMeta {
-  env?: string;
+  /**
+   * Environment variable name(s) for this field, in priority order.
+   * The first variable that is set wins. Names are used as-is (no prefix).
+   */
+  env?: string | string[];
   description?: string;
   examples?: unknown[];
   sensitive?: boolean;
@@ -176,12 +383,14 @@ export interface DocOptions {
   format: DocFormat;
   includeDefaults?: boolean;
   includeSensitive?: boolean;
+  /** List the command-line flags each field accepts (markdown only) */
+  includeFlags?: boolean;
 }
 
 /**
  * Watch mode event types
  */
-export type ConfigEventType = 'change' | 'error' | 'reload';
+export type ConfigEventType = 'change' | 'error' | 'reload' | 'reject' | 'source';
 
 /**
  * Config change event data
@@ -210,19 +419,85 @@ export interface ConfigReloadEvent<TData = unknown> {
   data: TData;
 }
 
+/**
+ * Config reject event data, emitted when a reload is not applied
+ */
+export interface ConfigRejectEvent {
+  type: 'reject';
+  /**
+   * Why the reload was rejected:
+   * `error` when the sources failed to load or validate,
+   * `vetoed` when a `beforeChange` hook refused the change
+   */
+  reason: 'error' | 'vetoed';
+  error: Error;
+  /** Paths that would have changed (empty for `error`) */
+  changedPaths: string[];
+}
+
+/**
+ * Config source event data, reporting how a failing plugin or HTTP source was handled
+ */
+export interface ConfigSourceEvent {
+  type: 'source';
+  /** Source description, as reported by `getSource()` */
+  source: string;
+  /**
+   * - `timeout`: a load attempt took longer than the source's timeout
+   * - `retry`: a failed load attempt is retried after `delay` milliseconds
+   * - `fallback`: the source failed and `fallback` is used instead
+   * - `circuit-open`: the source failed too often and is no longer called
+   * - `circuit-half-open`: a trial load is let through the open circuit
+   * - `circuit-close`: the trial load succeeded and the source is called again
+   */
+  action: 'timeout' | 'retry' | 'fallback' | 'circuit-open' | 'circuit-half-open' | 'circuit-close';
+  error?: Error;
+  /** The load attempt that failed, starting at 1 (`timeout`, `retry`) */
+  attempt?: number;
+  /** Milliseconds until the retry (`retry`) */
+  delay?: number;
+  /** The fallback used (`fallback`) */
+  fallback?: Exclude<SourceFallback, 'fail'>;
+}
+
 /**
  * Union of all config events
  */
 export type ConfigEvent<TData = unknown> =
   | ConfigChangeEvent<TData>
   | ConfigErrorEvent
-  | ConfigReloadEvent<TData>;
+  | ConfigReloadEvent<TData>
+  | ConfigRejectEvent
+  | ConfigSourceEvent;
 
 /**
  * Event listener type
  */
 export type ConfigEventListener<TData = unknown> = (event: ConfigEvent<TData>) => void;
 
+/**
+ * Proposed config change passed to `beforeChange` hooks
+ */
+export interface ConfigChange<TData = unknown> {
+  newData: TData;
+  oldData: TData;
+  changedPaths: string[];
+}
+
+/**
+ * Hook that can veto a config change before it is applied.
+ * Return `false` (or throw) to reject the change; the error message is
+ * reported as the reason. Async hooks are awaited.
+ */
+export type BeforeChangeHook<TData = unknown> = (
+  change: ConfigChange<TData>
+) => boolean | void | Promise<boolean | void>;
+
+/**
+ * Listener for changes below a single config path
+ */
+export type PathChangeListener<TValue = unknown> = (newValue: TValue, oldValue: TValue) => void;
+
 /**
  * Watch options
  */
@@ -1,7 +1,9 @@
 import type { z } from 'zod';
+import { getEnvNames, getFieldMeta } from '../utils/schema-introspect.js';
 
 interface EnvField {
   key: string;
+  aliases?: string[];
   type: string;
   required: boolean;
   default?: unknown;
@@ -133,12 +135,16 @@ function getEnvFieldInfo(zodType: z.ZodType, path: string, envPrefix: string): E
     }
   }
 
+  // Explicit names from `.meta({ env })` are used as-is, without prefix
+  const [envName, ...aliases] = getEnvNames(getFieldMeta(zodType));
+
   const field: EnvField = {
-    key: pathToEnvKey(path, envPrefix),
+    key: envName ?? pathToEnvKey(path, envPrefix),
     type,
     required,
   };
 
+  if (aliases.length > 0) field.aliases = aliases;
   if (defaultValue !== undefined) field.default = defaultValue;
   if (description !== undefined) field.description = description;
 
@@ -173,6 +179,10 @@ export function generateEnvExample(
 
       comments.push(`# Type: ${field.type}${field.required ? ' (required)' : ' (optional)'}`);
 
+      if (field.aliases) {
+        comments.push(`# Fallbacks: ${field.aliases.join(', ')}`);
+      }
+
       lines.push(...comments);
     }
 
@@ -19,8 +19,9 @@ export function generateDocs(
 
   switch (format) {
     case 'markdown': {
-      const mdOptions: { title?: string; includeDefaults?: boolean } = {
+      const mdOptions: { title?: string; includeDefaults?: boolean; includeFlags?: boolean } = {
         includeDefaults: options.includeDefaults ?? true,
+        includeFlags: options.includeFlags ?? false,
       };
       if (title !== undefined) mdOptions.title = title;
       return generateMarkdown(schema, mdOptions);
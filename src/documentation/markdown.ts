@@ -1,4 +1,5 @@
 import type { z } from 'zod';
+import { getFlagNames } from '../loaders/argv.js';
 
 interface FieldInfo {
   path: string;
@@ -139,9 +140,9 @@ function getZodTypeName(zodType: z.ZodType): string {
  */
 export function generateMarkdown(
   schema: z.ZodType,
-  options: { title?: string; includeDefaults?: boolean } = {}
+  options: { title?: string; includeDefaults?: boolean; includeFlags?: boolean } = {}
 ): string {
-  const { title = 'Configuration Reference', includeDefaults = true } = options;
+  const { title = 'Configuration Reference', includeDefaults = true, includeFlags = false } = options;
   const fields = extractFields(schema);
   const lines: string[] = [];
 
@@ -164,6 +165,7 @@ export function generateMarkdown(
     // Table header
     const headers = ['Key', 'Type', 'Required'];
     if (includeDefaults) headers.push('Default');
+    if (includeFlags) headers.push('Flags');
     headers.push('Description');
 
     lines.push(`| ${headers.join(' | ')} |`);
@@ -185,6 +187,14 @@ export function generateMarkdown(
         );
       }
 
+      if (includeFlags) {
+        row.push(
+          getFlagNames(field.path, field.type === 'boolean')
+            .map((flag) => `\`${flag}\``)
+            .join(', ')
+        );
+      }
+
       row.push(field.description ?? '-');
 
       lines.push(`| ${row.join(' | ')} |`);
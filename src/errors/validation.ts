@@ -8,11 +8,12 @@ export class ConfigValidationError extends Error {
   public readonly errors: ValidationErrorDetail[];
 
   constructor(
-    zodError: ZodError,
-    provenance?: Map<string, ValueProvenance>
+    zodError: ZodError | ValidationErrorDetail[],
+    provenance?: Map<string, ValueProvenance>,
+    title: string = 'Configuration validation failed:'
   ) {
-    const errors = ConfigValidationError.parseZodError(zodError, provenance);
-    const message = ConfigValidationError.formatMessage(errors);
+    const errors = Array.isArray(zodError) ? zodError : ConfigValidationError.parseZodError(zodError, provenance);
+    const message = ConfigValidationError.formatMessage(errors, title);
 
     super(message);
     this.name = 'ConfigValidationError';
@@ -64,8 +65,8 @@ export class ConfigValidationError extends Error {
   /**
    * Format errors into a readable message
    */
-  private static formatMessage(errors: ValidationErrorDetail[]): string {
-    const lines = ['Configuration validation failed:', ''];
+  private static formatMessage(errors: ValidationErrorDetail[], title: string): string {
+    const lines = [title, ''];
 
     for (const error of errors) {
       lines.push(`✗ ${error.path || '(root)'}`);
@@ -104,6 +105,23 @@ export class ConfigValidationError extends Error {
   }
 }
 
+/**
+ * Error thrown when a plugin source's options do not match the plugin's `optionsSchema`
+ */
+export class PluginOptionsError extends ConfigValidationError {
+  public readonly pluginName: string;
+
+  constructor(pluginName: string, zodError: ZodError) {
+    super(zodError, undefined, `Invalid options for plugin "${pluginName}":`);
+    this.name = 'PluginOptionsError';
+    this.pluginName = pluginName;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, PluginOptionsError);
+    }
+  }
+}
+
 /**
  * Error thrown when a required config file is not found
  */
@@ -127,12 +145,23 @@ export class ConfigFileNotFoundError extends Error {
 export class ConfigParseError extends Error {
   public readonly filePath: string;
   public readonly originalError: Error;
+  public readonly line?: number;
+  public readonly column?: number;
 
-  constructor(filePath: string, originalError: Error) {
-    super(`Failed to parse configuration file: ${filePath}\n${originalError.message}`);
+  constructor(
+    filePath: string,
+    originalError: Error,
+    location?: { line: number; column: number }
+  ) {
+    const where = location ? `:${location.line}:${location.column}` : '';
+    super(`Failed to parse configuration file: ${filePath}${where}\n${originalError.message}`);
     this.name = 'ConfigParseError';
     this.filePath = filePath;
     this.originalError = originalError;
+    if (location) {
+      this.line = location.line;
+      this.column = location.column;
+    }
 
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, ConfigParseError);
@@ -140,6 +169,138 @@ export class ConfigParseError extends Error {
   }
 }
 
+/**
+ * Error thrown when a remote config source cannot be fetched
+ */
+export class ConfigFetchError extends Error {
+  public readonly url: string;
+  /** HTTP status, when the server responded */
+  public readonly status?: number;
+
+  constructor(url: string, reason: string, status?: number) {
+    super(`Failed to fetch configuration: ${url}\n${reason}`);
+    this.name = 'ConfigFetchError';
+    this.url = url;
+    if (status !== undefined) {
+      this.status = status;
+    }
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ConfigFetchError);
+    }
+  }
+}
+
+/**
+ * Error thrown when a source does not finish loading within its timeout
+ */
+export class SourceTimeoutError extends Error {
+  public readonly source: string;
+  public readonly timeout: number;
+
+  constructor(source: string, timeout: number) {
+    super(`Timed out after ${timeout}ms loading ${source}`);
+    this.name = 'SourceTimeoutError';
+    this.source = source;
+    this.timeout = timeout;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, SourceTimeoutError);
+    }
+  }
+}
+
+/**
+ * Error thrown when a source is not called because its circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  public readonly source: string;
+  public readonly failures: number;
+
+  constructor(source: string, failures: number) {
+    super(`Circuit breaker open for ${source} after ${failures} consecutive failures`);
+    this.name = 'CircuitOpenError';
+    this.source = source;
+    this.failures = failures;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CircuitOpenError);
+    }
+  }
+}
+
+/**
+ * Error thrown when config files extend or include each other in a cycle
+ */
+export class CircularIncludeError extends Error {
+  public readonly files: string[];
+
+  constructor(files: string[]) {
+    super(`Circular include detected: ${files.join(' -> ')}`);
+    this.name = 'CircularIncludeError';
+    this.files = files;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CircularIncludeError);
+    }
+  }
+}
+
+/**
+ * Error thrown when a profile (or the parent it extends) does not exist
+ */
+export class ProfileNotFoundError extends Error {
+  public readonly profileName: string;
+
+  constructor(profileName: string, extendedBy?: string) {
+    super(
+      extendedBy
+        ? `Profile "${extendedBy}" extends unknown profile "${profileName}"`
+        : `Profile not found: ${profileName}`
+    );
+    this.name = 'ProfileNotFoundError';
+    this.profileName = profileName;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ProfileNotFoundError);
+    }
+  }
+}
+
+/**
+ * Error thrown when profiles extend each other in a cycle
+ */
+export class CircularProfileError extends Error {
+  public readonly profiles: string[];
+
+  constructor(profiles: string[]) {
+    super(`Circular profile inheritance detected: ${profiles.join(' -> ')}`);
+    this.name = 'CircularProfileError';
+    this.profiles = profiles;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CircularProfileError);
+    }
+  }
+}
+
+/**
+ * Error reported when a `beforeChange` hook rejects a new config
+ */
+export class ConfigChangeRejectedError extends Error {
+  public readonly changedPaths: string[];
+
+  constructor(changedPaths: string[], reason?: string) {
+    super(`Config change rejected${reason ? `: ${reason}` : ''} (changed: ${changedPaths.join(', ')})`);
+    this.name = 'ConfigChangeRejectedError';
+    this.changedPaths = changedPaths;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ConfigChangeRejectedError);
+    }
+  }
+}
+
 /**
  * Error thrown when a plugin is not found
  */
@@ -156,3 +317,20 @@ export class PluginNotFoundError extends Error {
     }
   }
 }
+
+/**
+ * Error thrown when `ref+...` secret references cannot be resolved
+ */
+export class SecretReferenceError extends Error {
+  public readonly references: string[];
+
+  constructor(references: string[], reason: string) {
+    super(`Failed to resolve secret reference${references.length === 1 ? '' : 's'} ${references.join(', ')}\n${reason}`);
+    this.name = 'SecretReferenceError';
+    this.references = references;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, SecretReferenceError);
+    }
+  }
+}
@@ -8,23 +8,40 @@ export type {
   Source,
   EnvSource,
   FileSource,
+  FileFormat,
+  DirectorySource,
+  ArgvSource,
+  HttpSource,
+  HttpAuth,
+  RemoteSourceOptions,
+  SourceFallback,
+  CircuitBreakerOptions,
   ObjectSource,
   PluginSource,
+  PluginSourceFor,
+  PluginOptionsMap,
   ProfileConfig,
   LoaderContext,
   PathsOf,
   ValueAt,
   DocFormat,
   DocOptions,
+  SchemaFieldMeta,
   // Watch mode types
   ConfigEvent,
   ConfigChangeEvent,
   ConfigErrorEvent,
   ConfigReloadEvent,
+  ConfigRejectEvent,
+  ConfigSourceEvent,
   ConfigEventListener,
+  ConfigChange,
+  BeforeChangeHook,
+  PathChangeListener,
   WatchOptions,
   // Encryption types
   DecryptionConfig,
+  SecretRefOptions,
 } from './core/types.js';
 
 // Errors
@@ -32,7 +49,16 @@ export {
   ConfigValidationError,
   ConfigFileNotFoundError,
   ConfigParseError,
+  ConfigFetchError,
+  SourceTimeoutError,
+  CircuitOpenError,
+  CircularIncludeError,
+  ProfileNotFoundError,
+  CircularProfileError,
+  ConfigChangeRejectedError,
   PluginNotFoundError,
+  PluginOptionsError,
+  SecretReferenceError,
 } from './errors/validation.js';
 
 // Plugins
@@ -44,8 +70,31 @@ export {
   unregisterPlugin,
   getRegisteredPlugins,
   clearPlugins,
+  createVaultPlugin,
+  createAwsSecretsPlugin,
+  createSsmPlugin,
+  createConsulPlugin,
+  createEtcdPlugin,
+} from './plugins/index.js';
+export type {
+  Plugin,
+  DefinePluginOptions,
+  PluginLoadContext,
+  PluginNotify,
+  PluginUnwatch,
+  SecretReference,
+  VaultPluginOptions,
+  VaultAuth,
+  VaultSourceOptions,
+  AwsPluginOptions,
+  AwsCredentials,
+  AwsSecretsSourceOptions,
+  SsmSourceOptions,
+  ConsulPluginOptions,
+  ConsulSourceOptions,
+  EtcdPluginOptions,
+  EtcdSourceOptions,
 } from './plugins/index.js';
-export type { Plugin, DefinePluginOptions } from './plugins/index.js';
 
 // Documentation
 export {
@@ -56,11 +105,12 @@ export {
 } from './documentation/index.js';
 
 // Loaders (for advanced usage)
-export { EnvLoader, FileLoader, BaseLoader } from './loaders/index.js';
+export { EnvLoader, FileLoader, DirectoryLoader, ArgvLoader, HttpLoader, BaseLoader } from './loaders/index.js';
+export type { HttpValidators, HttpRequestEvent } from './loaders/index.js';
 
 // Utilities (for advanced usage)
 export { deepMerge, getByPath, setByPath, deepFreeze } from './utils/deep-merge.js';
-export { interpolate, hasInterpolation, CircularReferenceError } from './utils/interpolate.js';
+export { interpolate, hasInterpolation, CircularReferenceError, MissingVariableError } from './utils/interpolate.js';
 export type { InterpolateOptions } from './utils/interpolate.js';
 
 // Secrets masking
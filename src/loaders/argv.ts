@@ -0,0 +1,166 @@
+import type { z } from 'zod';
+import type { LoaderContext } from '../core/types.js';
+import { setByPath } from '../utils/deep-merge.js';
+import { coerceToSchema } from '../utils/coerce.js';
+import { collectFields, getSchemaAtPath, getTypeName, unwrap } from '../utils/schema-introspect.js';
+import { BaseLoader } from './base.js';
+
+/**
+ * Options for command-line argument loading
+ */
+export interface ArgvLoaderOptions {
+  /** Arguments to parse (default: process.argv.slice(2)) */
+  args?: string[];
+  /** Schema used to resolve flag names and coerce values */
+  schema?: z.ZodType;
+  /** Collects the flag each path's value came from */
+  sources?: Map<string, string>;
+}
+
+/**
+ * Convert camelCase to kebab-case
+ * poolSize -> pool-size
+ */
+function toKebab(str: string): string {
+  return str.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+/**
+ * Convert kebab-case to camelCase
+ * pool-size -> poolSize
+ */
+function toCamel(str: string): string {
+  return str.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Check whether a schema describes a boolean
+ */
+function isBooleanSchema(schema: z.ZodType | undefined): boolean {
+  return schema !== undefined && getTypeName(unwrap(schema).schema) === 'boolean';
+}
+
+/**
+ * Check whether a schema describes an array
+ */
+function isArraySchema(schema: z.ZodType | undefined): boolean {
+  return schema !== undefined && getTypeName(unwrap(schema).schema) === 'array';
+}
+
+/**
+ * Get the flags accepted for a config path
+ * server.port -> --server.port, --server-port
+ * database.poolSize -> --database.pool-size, --database-pool-size
+ * debug (boolean) -> --debug, --no-debug
+ */
+export function getFlagNames(path: string, isBoolean: boolean = false): string[] {
+  const parts = path.split('.').map(toKebab);
+  const names = new Set([parts.join('.'), parts.join('-')]);
+  const flags = [...names].map((name) => `--${name}`);
+
+  if (isBoolean) {
+    flags.push(...[...names].map((name) => `--no-${name}`));
+  }
+
+  return flags;
+}
+
+/**
+ * Resolve a flag name (without leading dashes) to a config path.
+ * Dotted names map segment by segment; dashed names are looked up in the schema
+ * and fall back to camelCase.
+ */
+function flagToPath(name: string, kebabPaths: Map<string, string>): string {
+  if (name.includes('.')) {
+    return name.split('.').map(toCamel).join('.');
+  }
+  return kebabPaths.get(name.toLowerCase()) ?? toCamel(name);
+}
+
+/**
+ * Loader for command-line flags
+ * --server.port=8080, --server-port 8080, --debug, --no-debug
+ */
+export class ArgvLoader extends BaseLoader<ArgvLoaderOptions> {
+  readonly name = 'argv';
+
+  async load(
+    options: ArgvLoaderOptions,
+    _context: LoaderContext
+  ): Promise<Record<string, unknown>> {
+    const { args = process.argv.slice(2), schema, sources } = options;
+    const result: Record<string, unknown> = {};
+
+    // server-port -> server.port, for every field the schema describes
+    const kebabPaths = new Map<string, string>();
+    for (const field of schema ? collectFields(schema) : []) {
+      kebabPaths.set(field.path.split('.').map(toKebab).join('-'), field.path);
+    }
+
+    const fieldSchema = (path: string): z.ZodType | undefined =>
+      schema ? getSchemaAtPath(schema, path) : undefined;
+
+    // Collect raw values first so repeated flags can build arrays
+    const values = new Map<string, { values: string[]; flag: string }>();
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i]!;
+
+      // Everything after -- is positional
+      if (arg === '--') break;
+      if (!arg.startsWith('--') || arg.length === 2) continue;
+
+      const eqIndex = arg.indexOf('=');
+      const flag = eqIndex === -1 ? arg : arg.slice(0, eqIndex);
+      const name = flag.slice(2);
+      let value = eqIndex === -1 ? undefined : arg.slice(eqIndex + 1);
+
+      let path = flagToPath(name, kebabPaths);
+
+      // --no-debug negates a boolean, unless a field is literally named noDebug
+      if (value === undefined && name.startsWith('no-') && !fieldSchema(path)) {
+        const negatedPath = flagToPath(name.slice(3), kebabPaths);
+        if (!schema || isBooleanSchema(fieldSchema(negatedPath))) {
+          path = negatedPath;
+          value = 'false';
+        }
+      }
+
+      if (value === undefined) {
+        const next = args[i + 1];
+        const isBoolean = isBooleanSchema(fieldSchema(path));
+
+        if (isBoolean && (next === 'true' || next === 'false')) {
+          value = next;
+          i++;
+        } else if (!isBoolean && next !== undefined && !next.startsWith('--')) {
+          value = next;
+          i++;
+        } else {
+          // A bare flag is a boolean switch
+          value = 'true';
+        }
+      }
+
+      const entry = values.get(path);
+      if (entry && isArraySchema(fieldSchema(path))) {
+        entry.values.push(value);
+        entry.flag = flag;
+      } else {
+        values.set(path, { values: [value], flag });
+      }
+    }
+
+    for (const [path, entry] of values) {
+      const schemaAtPath = fieldSchema(path);
+      const coerced = entry.values.length > 1
+        ? entry.values.flatMap((value) => coerceToSchema(value, schemaAtPath) as unknown[])
+        : coerceToSchema(entry.values[0]!, schemaAtPath);
+
+      setByPath(result, path, coerced);
+      sources?.set(path, `cli flag ${entry.flag}`);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,82 @@
+import { readFile, readdir, stat } from 'node:fs/promises';
+import { existsSync, type Stats } from 'node:fs';
+import { resolve, join } from 'node:path';
+import type { z } from 'zod';
+import type { LoaderContext } from '../core/types.js';
+import { ConfigFileNotFoundError } from '../errors/validation.js';
+import { setByPath } from '../utils/deep-merge.js';
+import { coerceToSchema } from '../utils/coerce.js';
+import { getSchemaAtPath } from '../utils/schema-introspect.js';
+import { BaseLoader } from './base.js';
+import { envKeyToPath } from './env.js';
+
+/**
+ * Options for directory loading
+ */
+export interface DirectoryLoaderOptions {
+  path: string;
+  optional?: boolean;
+  /** Schema used to coerce file contents to their declared types */
+  schema?: z.ZodType;
+}
+
+/**
+ * stat() a path, returning undefined when it (or a symlink's target) does not exist
+ */
+async function statIfExists(path: string): Promise<Stats | undefined> {
+  try {
+    return await stat(path);
+  } catch (error) {
+    // Dangling symlinks, or files removed while the directory is read
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Loader for directories of key/value files
+ * (Kubernetes ConfigMap/Secret volumes, /run/secrets).
+ *
+ * Each file name is mapped to a path like an env var name:
+ * SERVER__PORT -> server.port, db_password -> dbPassword
+ */
+export class DirectoryLoader extends BaseLoader<DirectoryLoaderOptions> {
+  readonly name = 'directory';
+
+  async load(
+    options: DirectoryLoaderOptions,
+    context: LoaderContext
+  ): Promise<Record<string, unknown>> {
+    const { optional = false, schema } = options;
+    const absolutePath = resolve(context.cwd, options.path);
+
+    if (!existsSync(absolutePath)) {
+      if (optional) {
+        return {};
+      }
+      throw new ConfigFileNotFoundError(absolutePath);
+    }
+
+    const result: Record<string, unknown> = {};
+    const entries = (await readdir(absolutePath)).sort();
+
+    for (const entry of entries) {
+      // Skip hidden entries, including Kubernetes' ..data and timestamped directories
+      if (entry.startsWith('.')) continue;
+
+      // stat() follows symlinks, which is how mounted volumes expose their files
+      const filePath = join(absolutePath, entry);
+      const stats = await statIfExists(filePath);
+      if (!stats?.isFile()) continue;
+
+      const path = envKeyToPath(entry, '');
+      if (!path) continue;
+
+      const content = (await readFile(filePath, 'utf-8')).trim();
+      const fieldSchema = schema ? getSchemaAtPath(schema, path) : undefined;
+      setByPath(result, path, coerceToSchema(content, fieldSchema));
+    }
+
+    return result;
+  }
+}
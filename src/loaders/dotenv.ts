@@ -1,47 +1,156 @@
+import { ConfigParseError } from '../errors/validation.js';
+
+/**
+ * Escape sequences supported in double-quoted values
+ */
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '"': '"',
+  '\\': '\\',
+};
+
+/**
+ * Valid variable names (docker-compose also allows dots and dashes)
+ */
+const KEY_PATTERN = /[A-Za-z_][A-Za-z0-9_.-]*/y;
+
 /**
  * Parse .env file content into a flat key-value object
+ *
+ * Follows dotenv / docker-compose behaviour:
+ * - `export KEY=value` lines
+ * - `# comments`, including inline comments after unquoted values (`KEY=value # note`)
+ * - single-quoted and backtick-quoted values are literal
+ * - double-quoted values support `\n`, `\r`, `\t`, `\"` and `\\` escapes
+ * - quoted values may span multiple lines (PEM keys, certificates)
+ *
+ * Throws ConfigParseError with the line and column of malformed input.
  */
-export function parseDotenv(content: string): Record<string, unknown> {
+export function parseDotenv(content: string, filePath: string = '.env'): Record<string, unknown> {
   const result: Record<string, unknown> = {};
-  const lines = content.split('\n');
+  const src = content.replace(/\r\n?/g, '\n');
 
-  for (const line of lines) {
-    // Skip empty lines and comments
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) {
-      continue;
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const fail = (message: string, at: { line: number; column: number } = location()): never => {
+    throw new ConfigParseError(filePath, new Error(message), at);
+  };
+
+  function location(): { line: number; column: number } {
+    return { line, column: pos - lineStart + 1 };
+  }
+
+  function skipBlanks(): void {
+    while (src[pos] === ' ' || src[pos] === '\t') pos++;
+  }
+
+  function skipToLineEnd(): void {
+    while (pos < src.length && src[pos] !== '\n') pos++;
+  }
+
+  function newline(): void {
+    pos++;
+    line++;
+    lineStart = pos;
+  }
+
+  function readQuoted(quote: string): string {
+    const start = location();
+    let value = '';
+    pos++; // opening quote
+
+    while (pos < src.length && src[pos] !== quote) {
+      const char = src[pos]!;
+
+      if (char === '\\' && quote === '"' && pos + 1 < src.length) {
+        const next = src[pos + 1]!;
+        value += ESCAPES[next] ?? `\\${next}`;
+        pos += 2;
+        continue;
+      }
+
+      if (char === '\n') {
+        value += char;
+        newline();
+        continue;
+      }
+
+      value += char;
+      pos++;
     }
 
-    // Find the first = sign
-    const eqIndex = trimmed.indexOf('=');
-    if (eqIndex === -1) {
-      continue;
+    if (pos >= src.length) {
+      fail(`Unterminated ${quote} quoted value`, start);
     }
 
-    const key = trimmed.slice(0, eqIndex).trim();
-    let value = trimmed.slice(eqIndex + 1).trim();
+    pos++; // closing quote
+
+    // Only whitespace or a comment may follow a quoted value
+    skipBlanks();
+    if (src[pos] === '#') {
+      skipToLineEnd();
+    } else if (pos < src.length && src[pos] !== '\n') {
+      fail(`Unexpected character "${src[pos]}" after quoted value`);
+    }
+
+    return value;
+  }
+
+  function readUnquoted(): string {
+    const start = pos;
+    skipToLineEnd();
+    const raw = src.slice(start, pos);
 
-    // Remove surrounding quotes if present
-    if (
-      (value.startsWith('"') && value.endsWith('"')) ||
-      (value.startsWith("'") && value.endsWith("'"))
-    ) {
-      value = value.slice(1, -1);
+    // A # starts a comment only at the beginning or after whitespace
+    const comment = raw.search(/(^|[ \t])#/);
+    return (comment === -1 ? raw : raw.slice(0, comment)).trim();
+  }
+
+  while (pos < src.length) {
+    skipBlanks();
+
+    // Empty line or comment
+    if (src[pos] === '\n') {
+      newline();
+      continue;
+    }
+    if (src[pos] === '#') {
+      skipToLineEnd();
+      continue;
+    }
+    if (pos >= src.length) break;
+
+    // Optional export keyword
+    if (src.startsWith('export', pos) && /[ \t]/.test(src[pos + 6] ?? '')) {
+      pos += 6;
+      skipBlanks();
     }
 
-    // Handle escape sequences in double-quoted values
-    if (trimmed.slice(eqIndex + 1).trim().startsWith('"')) {
-      value = value
-        .replace(/\\n/g, '\n')
-        .replace(/\\r/g, '\r')
-        .replace(/\\t/g, '\t')
-        .replace(/\\"/g, '"')
-        .replace(/\\\\/g, '\\');
+    KEY_PATTERN.lastIndex = pos;
+    const keyMatch = KEY_PATTERN.exec(src);
+    if (!keyMatch) {
+      fail('Invalid variable name');
     }
+    const key = keyMatch![0];
+    pos += key.length;
 
-    if (key) {
-      result[key] = value;
+    skipBlanks();
+    if (src[pos] !== '=') {
+      fail(`Expected "=" after ${key}`);
     }
+    pos++;
+    skipBlanks();
+
+    const quote = src[pos];
+    const value = quote === '"' || quote === "'" || quote === '`'
+      ? readQuoted(quote)
+      : readUnquoted();
+
+    result[key] = value;
   }
 
   return result;
@@ -1,5 +1,12 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { z } from 'zod';
 import type { LoaderContext } from '../core/types.js';
+import { ConfigFileNotFoundError } from '../errors/validation.js';
 import { setByPath } from '../utils/deep-merge.js';
+import { coerceToSchema } from '../utils/coerce.js';
+import { collectEnvMappings, getSchemaAtPath } from '../utils/schema-introspect.js';
 import { BaseLoader } from './base.js';
 
 /**
@@ -8,6 +15,52 @@ import { BaseLoader } from './base.js';
 export interface EnvLoaderOptions {
   prefix?: string;
   separator?: string;
+  /** Schema used to coerce values and resolve explicit `env` mappings */
+  schema?: z.ZodType;
+  /**
+   * Replace `X_FILE` variables with the trimmed contents of the file they point to.
+   * With a schema, only variables whose `X` maps to a schema field are replaced.
+   */
+  secretFiles?: boolean;
+  /** Collects a description of where each path's value came from, when it differs from the source */
+  sources?: Map<string, string>;
+}
+
+/**
+ * Suffix marking variables that point to a secret file
+ */
+const FILE_SUFFIX = '_FILE';
+
+/**
+ * Replace `X_FILE` variables with `X` set to the file contents.
+ * Returns the resulting env and, for each replaced key, the provenance description.
+ */
+async function resolveSecretFiles(
+  env: NodeJS.ProcessEnv,
+  shouldResolve: (key: string) => boolean,
+  cwd: string
+): Promise<{ env: NodeJS.ProcessEnv; origins: Map<string, string> }> {
+  const resolved: NodeJS.ProcessEnv = { ...env };
+  const origins = new Map<string, string>();
+
+  for (const [fileKey, filePath] of Object.entries(env)) {
+    if (filePath === undefined || !fileKey.toUpperCase().endsWith(FILE_SUFFIX)) continue;
+
+    const key = fileKey.slice(0, -FILE_SUFFIX.length);
+    if (!key || !shouldResolve(key)) continue;
+
+    const absolutePath = resolve(cwd, filePath);
+    if (!existsSync(absolutePath)) {
+      throw new ConfigFileNotFoundError(absolutePath);
+    }
+
+    // The file takes precedence over a plain variable of the same name
+    resolved[key] = (await readFile(absolutePath, 'utf-8')).trim();
+    delete resolved[fileKey];
+    origins.set(key, `file ${absolutePath} via env ${fileKey}`);
+  }
+
+  return { env: resolved, origins };
 }
 
 /**
@@ -16,7 +69,7 @@ export interface EnvLoaderOptions {
  * Double underscore (__) = nesting
  * Single underscore after prefix = camelCase conversion
  */
-function envKeyToPath(key: string, prefix: string): string {
+export function envKeyToPath(key: string, prefix: string): string {
   const withoutPrefix = key.slice(prefix.length);
 
   return withoutPrefix
@@ -28,37 +81,6 @@ function envKeyToPath(key: string, prefix: string): string {
     .join('.');
 }
 
-/**
- * Attempt to coerce string values to their likely types
- */
-function coerceValue(value: string): unknown {
-  // Boolean
-  if (value.toLowerCase() === 'true') return true;
-  if (value.toLowerCase() === 'false') return false;
-
-  // Number
-  if (/^-?\d+$/.test(value)) {
-    const num = parseInt(value, 10);
-    if (!isNaN(num) && num.toString() === value) return num;
-  }
-  if (/^-?\d*\.\d+$/.test(value)) {
-    const num = parseFloat(value);
-    if (!isNaN(num)) return num;
-  }
-
-  // JSON array or object
-  if ((value.startsWith('[') && value.endsWith(']')) ||
-      (value.startsWith('{') && value.endsWith('}'))) {
-    try {
-      return JSON.parse(value);
-    } catch {
-      // Keep as string
-    }
-  }
-
-  return value;
-}
-
 /**
  * Loader for environment variables
  */
@@ -69,21 +91,61 @@ export class EnvLoader extends BaseLoader<EnvLoaderOptions> {
     options: EnvLoaderOptions,
     context: LoaderContext
   ): Promise<Record<string, unknown>> {
-    const { prefix = '' } = options;
+    const { prefix = '', schema, secretFiles = false, sources } = options;
     const result: Record<string, unknown> = {};
     const upperPrefix = prefix.toUpperCase();
+    const mappings = schema ? collectEnvMappings(schema) : [];
+
+    const hasPrefix = (key: string): boolean =>
+      !upperPrefix || key.toUpperCase().startsWith(upperPrefix);
+
+    let env = context.env;
+    let origins = new Map<string, string>();
 
-    for (const [key, value] of Object.entries(context.env)) {
+    if (secretFiles) {
+      const mappedNames = new Set(mappings.flatMap((mapping) => mapping.env));
+      // With a schema, only variables naming a field are secret files, so
+      // settings like `APP_LOG_FILE=/var/log/app.log` keep their value
+      const namesField = (key: string): boolean =>
+        hasPrefix(key) && (!schema || getSchemaAtPath(schema, envKeyToPath(key, upperPrefix)) !== undefined);
+
+      ({ env, origins } = await resolveSecretFiles(
+        context.env,
+        (key) => namesField(key) || mappedNames.has(key),
+        context.cwd
+      ));
+    }
+
+    const set = (path: string, key: string, value: unknown): void => {
+      setByPath(result, path, value);
+      const origin = origins.get(key);
+      if (origin !== undefined) {
+        sources?.set(path, origin);
+      } else {
+        sources?.delete(path);
+      }
+    };
+
+    for (const [key, value] of Object.entries(env)) {
       if (value === undefined) continue;
 
       // Check if key starts with prefix
-      if (upperPrefix && !key.toUpperCase().startsWith(upperPrefix)) {
+      if (!hasPrefix(key)) {
         continue;
       }
 
       const path = envKeyToPath(key, upperPrefix);
       if (path) {
-        setByPath(result, path, coerceValue(value));
+        const fieldSchema = schema ? getSchemaAtPath(schema, path) : undefined;
+        set(path, key, coerceToSchema(value, fieldSchema));
+      }
+    }
+
+    // Explicit mappings declared with `.meta({ env })` override the naming convention
+    for (const mapping of mappings) {
+      const key = mapping.env.find((name) => env[name] !== undefined);
+      if (key !== undefined) {
+        set(mapping.path, key, coerceToSchema(env[key]!, mapping.schema));
       }
     }
 
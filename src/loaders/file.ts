@@ -1,9 +1,18 @@
-import { readFile } from 'node:fs/promises';
+import { readFile, stat } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
-import { resolve, extname } from 'node:path';
-import { parse as parseYaml } from 'yaml';
-import type { LoaderContext } from '../core/types.js';
-import { ConfigFileNotFoundError, ConfigParseError } from '../errors/validation.js';
+import { resolve, extname, basename, dirname, relative, isAbsolute, sep } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parse as parseYaml, YAMLParseError } from 'yaml';
+import { parse as parseToml, TomlError } from 'smol-toml';
+import JSON5 from 'json5';
+import { glob, isDynamicPattern } from 'tinyglobby';
+import { parse as parseIni } from 'ini';
+import type { z } from 'zod';
+import type { FileFormat, LoaderContext } from '../core/types.js';
+import { ConfigFileNotFoundError, ConfigParseError, CircularIncludeError } from '../errors/validation.js';
+import { deepMerge, isPlainObject } from '../utils/deep-merge.js';
+import { coerceToSchema } from '../utils/coerce.js';
+import { getSchemaAtPath } from '../utils/schema-introspect.js';
 import { BaseLoader } from './base.js';
 import { parseDotenv } from './dotenv.js';
 
@@ -12,39 +21,298 @@ import { parseDotenv } from './dotenv.js';
  */
 export interface FileLoaderOptions {
   path: string;
-  format?: 'json' | 'yaml' | 'dotenv' | 'auto';
+  format?: FileFormat | 'auto';
   optional?: boolean;
+  /** Schema used to coerce string values from formats without types (INI) */
+  schema?: z.ZodType;
+  /** Collects the absolute paths of the file and every file it extends or includes */
+  files?: Set<string>;
+  /** Collects the file each path's value came from, when `path` is a glob pattern */
+  sources?: Map<string, string>;
+  /**
+   * Treat `path` as a glob pattern. By default, a path with glob syntax is only
+   * a pattern when no file exists at the literal path (`config[prod].json`)
+   */
+  glob?: boolean;
 }
 
 /**
  * Detect file format from extension
  */
-function detectFormat(filePath: string): 'json' | 'yaml' | 'dotenv' {
-  const ext = extname(filePath).toLowerCase();
+function detectFormat(filePath: string): FileFormat | undefined {
+  const format = formatFromExtension(extname(filePath).toLowerCase());
+  if (format) return format;
 
+  // .env, .env.local, .env.production have no usable extension
+  // (but .env.json is JSON, and .envrc is not a dotenv file)
+  if (/^\.env(\..+)?$/.test(basename(filePath).toLowerCase())) {
+    return 'dotenv';
+  }
+
+  return undefined;
+}
+
+/**
+ * Map a file extension to its format
+ */
+function formatFromExtension(ext: string): FileFormat | undefined {
   switch (ext) {
     case '.json':
       return 'json';
+    case '.json5':
+      return 'json5';
+    case '.jsonc':
+      return 'jsonc';
     case '.yaml':
     case '.yml':
       return 'yaml';
+    case '.toml':
+      return 'toml';
+    case '.ini':
+      return 'ini';
     case '.env':
       return 'dotenv';
+    case '.ts':
+    case '.mts':
+    case '.js':
+    case '.mjs':
+      return 'module';
     default:
-      // Default to JSON for unknown extensions
-      return 'json';
+      return undefined;
+  }
+}
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+function offsetToLocation(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: (lines[lines.length - 1]?.length ?? 0) + 1 };
+}
+
+/**
+ * Extract the line and column of a parse error, if the parser reports one
+ */
+export function getErrorLocation(
+  error: unknown,
+  content: string
+): { line: number; column: number } | undefined {
+  if (error instanceof YAMLParseError && error.linePos) {
+    const [start] = error.linePos;
+    return { line: start.line, column: start.col };
+  }
+
+  if (error instanceof TomlError) {
+    return { line: error.line, column: error.column };
+  }
+
+  if (error instanceof SyntaxError) {
+    // JSON5 reports lineNumber/columnNumber
+    const { lineNumber, columnNumber } = error as SyntaxError & {
+      lineNumber?: number;
+      columnNumber?: number;
+    };
+    if (lineNumber !== undefined && columnNumber !== undefined) {
+      return { line: lineNumber, column: columnNumber };
+    }
+
+    // JSON.parse reports a character offset
+    const match = /at position (\d+)/.exec(error.message);
+    if (match) {
+      return offsetToLocation(content, parseInt(match[1]!, 10));
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Import a JavaScript config module.
+ * The ESM module cache cannot evict entries, so each edited version of the file
+ * stays in memory for the life of the process; the mtime query only makes
+ * unchanged files reuse their cached module.
+ */
+async function importJavaScript(absolutePath: string): Promise<{ default?: unknown }> {
+  const { mtimeMs } = await stat(absolutePath);
+  const url = `${pathToFileURL(absolutePath).href}?mtime=${Math.round(mtimeMs * 1000)}`;
+
+  return (await import(url)) as { default?: unknown };
+}
+
+/**
+ * Import a TypeScript config module with jiti (an optional peer dependency),
+ * since Node cannot import TypeScript without a loader.
+ * jiti's module cache is disabled, so reloads re-read the file without piling up modules.
+ */
+async function importTypeScript(absolutePath: string): Promise<{ default?: unknown }> {
+  let createJiti: typeof import('jiti').createJiti;
+  try {
+    ({ createJiti } = await import('jiti'));
+  } catch {
+    throw new Error(
+      'TypeScript config requires a loader: install "jiti" (npm install jiti), or use a .js/.mjs config module'
+    );
+  }
+
+  const jiti = createJiti(pathToFileURL(absolutePath).href, { moduleCache: false, fsCache: false });
+  return jiti.import<{ default?: unknown }>(absolutePath);
+}
+
+/**
+ * Load a TypeScript/JavaScript config module.
+ * The default export is either an object or a (sync or async) function
+ * receiving the loader context.
+ */
+async function loadModule(
+  absolutePath: string,
+  context: LoaderContext
+): Promise<Record<string, unknown>> {
+  const ext = extname(absolutePath).toLowerCase();
+  const module = ext === '.ts' || ext === '.mts'
+    ? await importTypeScript(absolutePath)
+    : await importJavaScript(absolutePath);
+  const exported = module.default;
+
+  const value = typeof exported === 'function'
+    ? await (exported as (context: LoaderContext) => unknown)(context)
+    : exported;
+
+  if (!isPlainObject(value)) {
+    throw new Error(
+      'Config module must have a default export that is an object or a function returning an object'
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Coerce string values (INI has no types) using the schema
+ */
+function coerceStrings(
+  obj: Record<string, unknown>,
+  schema: z.ZodType | undefined,
+  prefix: string = ''
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(obj)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (typeof value === 'string') {
+      result[key] = coerceToSchema(value, schema ? getSchemaAtPath(schema, path) : undefined);
+    } else if (isPlainObject(value)) {
+      result[key] = coerceStrings(value, schema, path);
+    } else {
+      result[key] = value;
+    }
   }
+
+  return result;
+}
+
+/**
+ * Check whether a file path is a glob pattern
+ */
+export function isGlobPattern(path: string): boolean {
+  return isDynamicPattern(path);
 }
 
 /**
- * Interpolate profile variable in file path
+ * Get the directory a glob pattern starts matching in
+ * config/conf.d/*.yaml -> config/conf.d
+ */
+export function getGlobBase(pattern: string): string {
+  const parts = pattern.split(/[\\/]/);
+  const firstDynamic = parts.findIndex((part) => isDynamicPattern(part));
+  const base = parts.slice(0, firstDynamic === -1 ? parts.length : firstDynamic).join(sep);
+  return base || (pattern.startsWith('/') ? sep : '.');
+}
+
+/**
+ * Record the file every leaf value came from
+ */
+function recordLeafSources(
+  obj: Record<string, unknown>,
+  source: string,
+  sources: Map<string, string>,
+  prefix: string = ''
+): void {
+  for (const [key, value] of Object.entries(obj)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value)) {
+      recordLeafSources(value, source, sources, path);
+    } else {
+      sources.set(path, source);
+    }
+  }
+}
+
+/**
+ * Interpolate profile variables in file path:
+ * `${PROFILE}` and `${<dimension>}` (e.g. `${region}`)
+ */
+function interpolatePath(path: string, context: LoaderContext): string {
+  return path.replace(/\$\{(\w+)\}/g, (match, name: string) => {
+    if (name.toUpperCase() === 'PROFILE') return context.profile;
+    return context.dimensions?.[name] ?? match;
+  });
+}
+
+/**
+ * Interpolate a file source path and decide whether it is a glob pattern
+ */
+export function resolveFilePath(
+  path: string,
+  context: LoaderContext,
+  glob?: boolean
+): { path: string; glob: boolean } {
+  const interpolatedPath = interpolatePath(path, context);
+  const isPattern = glob ?? (
+    isGlobPattern(interpolatedPath) && !existsSync(resolve(context.cwd, interpolatedPath))
+  );
+  return { path: interpolatedPath, glob: isPattern };
+}
+
+/**
+ * Key that makes a file inherit from one or more base files
+ */
+const EXTENDS_KEY = '$extends';
+
+/**
+ * Key that replaces an object node with the contents of one or more files
  */
-function interpolatePath(path: string, profile: string): string {
-  return path.replace(/\$\{PROFILE\}/gi, profile);
+const INCLUDE_KEY = '$include';
+
+/**
+ * Normalize a directive value to a list of paths
+ */
+function directivePaths(value: unknown, key: string, filePath: string): string[] {
+  const paths = Array.isArray(value) ? value : [value];
+
+  if (paths.length === 0 || !paths.every((p): p is string => typeof p === 'string')) {
+    throw new ConfigParseError(
+      filePath,
+      new Error(`"${key}" must be a file path or an array of file paths`)
+    );
+  }
+
+  return paths;
 }
 
 /**
- * Loader for JSON, YAML, and .env files
+ * Loader for JSON, JSON5/JSONC, YAML, TOML, INI, .env files
+ * and TypeScript/JavaScript config modules
+ *
+ * The path may be a glob pattern (`config/conf.d/*.yaml`); matching files
+ * are merged in lexical order.
+ *
+ * Structured files may use directives, resolved relative to the including file:
+ * - `$extends: ./base.yaml` at the top level inherits from a base file
+ * - `{ $include: ./db.yaml }` anywhere replaces the node with the file's contents
+ * Sibling keys are deep-merged over the extended/included data.
  */
 export class FileLoader extends BaseLoader<FileLoaderOptions> {
   readonly name = 'file';
@@ -56,7 +324,11 @@ export class FileLoader extends BaseLoader<FileLoaderOptions> {
     const { format = 'auto', optional = false } = options;
 
     // Interpolate profile in path
-    const interpolatedPath = interpolatePath(options.path, context.profile);
+    const { path: interpolatedPath, glob: isPattern } = resolveFilePath(options.path, context, options.glob);
+
+    if (isPattern) {
+      return this.loadGlob(interpolatedPath, format, options, context);
+    }
 
     // Resolve to absolute path
     const absolutePath = resolve(context.cwd, interpolatedPath);
@@ -69,11 +341,183 @@ export class FileLoader extends BaseLoader<FileLoaderOptions> {
       throw new ConfigFileNotFoundError(absolutePath);
     }
 
-    // Read file content
-    const content = await readFile(absolutePath, 'utf-8');
+    return this.loadFile(absolutePath, format, options, context, []);
+  }
+
+  /**
+   * Load every file matching a glob pattern, merged in lexical order
+   * like a conf.d drop-in directory
+   */
+  private async loadGlob(
+    pattern: string,
+    format: FileFormat | 'auto',
+    options: FileLoaderOptions,
+    context: LoaderContext
+  ): Promise<Record<string, unknown>> {
+    const matches = (await glob(pattern, { cwd: context.cwd, absolute: true, onlyFiles: true }))
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    if (matches.length === 0) {
+      if (options.optional) {
+        return {};
+      }
+      throw new ConfigFileNotFoundError(resolve(context.cwd, pattern));
+    }
+
+    const results: Array<Record<string, unknown>> = [];
+
+    for (const match of matches) {
+      const data = await this.loadFile(match, format, options, context, []);
+      const displayPath = isAbsolute(pattern) ? match : relative(context.cwd, match);
+
+      if (options.sources) {
+        recordLeafSources(data, formatFileSource(displayPath), options.sources);
+      }
+      results.push(data);
+    }
+
+    return deepMerge(...results);
+  }
+
+  /**
+   * Load a file and resolve its directives
+   */
+  private async loadFile(
+    absolutePath: string,
+    format: FileFormat | 'auto',
+    options: FileLoaderOptions,
+    context: LoaderContext,
+    chain: string[]
+  ): Promise<Record<string, unknown>> {
+    if (chain.includes(absolutePath)) {
+      throw new CircularIncludeError([...chain, absolutePath]);
+    }
+
+    options.files?.add(absolutePath);
 
-    // Determine format
     const fileFormat = format === 'auto' ? detectFormat(absolutePath) : format;
+    const data = await this.parseFile(absolutePath, fileFormat, options, context);
+
+    // .env files are flat variable lists, not structured config
+    if (fileFormat === 'dotenv' || !isPlainObject(data)) {
+      return data;
+    }
+
+    const nextChain = [...chain, absolutePath];
+    const { [EXTENDS_KEY]: extendsValue, ...rest } = data;
+    const resolved = await this.resolveIncludes(rest, absolutePath, options, context, nextChain);
+
+    if (extendsValue === undefined) {
+      return resolved;
+    }
+
+    const bases = await this.loadReferenced(
+      directivePaths(extendsValue, EXTENDS_KEY, absolutePath),
+      absolutePath,
+      options,
+      context,
+      nextChain
+    );
+
+    return deepMerge(...bases, resolved);
+  }
+
+  /**
+   * Replace `$include` nodes with the contents of the referenced files
+   */
+  private async resolveIncludes(
+    node: Record<string, unknown>,
+    filePath: string,
+    options: FileLoaderOptions,
+    context: LoaderContext,
+    chain: string[]
+  ): Promise<Record<string, unknown>> {
+    const resolveValue = async (value: unknown): Promise<unknown> => {
+      if (isPlainObject(value)) {
+        return this.resolveIncludes(value, filePath, options, context, chain);
+      }
+      if (Array.isArray(value)) {
+        return Promise.all(value.map(resolveValue));
+      }
+      return value;
+    };
+
+    const { [INCLUDE_KEY]: includeValue, ...rest } = node;
+    const result: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(rest)) {
+      result[key] = await resolveValue(value);
+    }
+
+    if (includeValue === undefined) {
+      return result;
+    }
+
+    const included = await this.loadReferenced(
+      directivePaths(includeValue, INCLUDE_KEY, filePath),
+      filePath,
+      options,
+      context,
+      chain
+    );
+
+    return deepMerge(...included, result);
+  }
+
+  /**
+   * Load files referenced by a directive, relative to the referencing file
+   */
+  private async loadReferenced(
+    paths: string[],
+    fromFile: string,
+    options: FileLoaderOptions,
+    context: LoaderContext,
+    chain: string[]
+  ): Promise<Array<Record<string, unknown>>> {
+    const results: Array<Record<string, unknown>> = [];
+
+    for (const path of paths) {
+      const absolutePath = resolve(dirname(fromFile), interpolatePath(path, context));
+
+      if (!existsSync(absolutePath)) {
+        throw new ConfigFileNotFoundError(absolutePath);
+      }
+
+      results.push(await this.loadFile(absolutePath, 'auto', options, context, chain));
+    }
+
+    return results;
+  }
+
+  /**
+   * Parse a single file based on its format
+   */
+  private async parseFile(
+    absolutePath: string,
+    fileFormat: FileFormat | undefined,
+    options: FileLoaderOptions,
+    context: LoaderContext
+  ): Promise<Record<string, unknown>> {
+    if (fileFormat === undefined) {
+      throw new ConfigParseError(
+        absolutePath,
+        new Error(`Unknown file extension "${extname(absolutePath)}". Set the "format" option explicitly.`)
+      );
+    }
+
+    if (fileFormat === 'module') {
+      try {
+        return await loadModule(absolutePath, context);
+      } catch (error) {
+        throw new ConfigParseError(
+          absolutePath,
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+    }
+
+    // Read file content
+    const content = await readFile(absolutePath, 'utf-8');
 
     // Parse based on format
     try {
@@ -81,22 +525,34 @@ export class FileLoader extends BaseLoader<FileLoaderOptions> {
         case 'json':
           return JSON.parse(content) as Record<string, unknown>;
 
+        case 'json5':
+        case 'jsonc':
+          // JSON5 is a superset of JSONC (comments, trailing commas)
+          return JSON5.parse<Record<string, unknown>>(content);
+
         case 'yaml':
           return parseYaml(content) as Record<string, unknown>;
 
+        case 'toml':
+          return parseToml(content) as Record<string, unknown>;
+
+        case 'ini':
+          return coerceStrings(parseIni(content), options.schema);
+
         case 'dotenv':
-          return parseDotenv(content);
+          return parseDotenv(content, absolutePath);
 
         default:
-          throw new Error(`Unknown file format: ${fileFormat}`);
+          throw new Error(`Unknown file format: ${fileFormat as string}`);
       }
     } catch (error) {
-      if (error instanceof ConfigFileNotFoundError) {
+      if (error instanceof ConfigFileNotFoundError || error instanceof ConfigParseError) {
         throw error;
       }
       throw new ConfigParseError(
         absolutePath,
-        error instanceof Error ? error : new Error(String(error))
+        error instanceof Error ? error : new Error(String(error)),
+        getErrorLocation(error, content)
       );
     }
   }
@@ -0,0 +1,327 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { resolve, dirname, extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { HttpAuth, LoaderContext } from '../core/types.js';
+import { ConfigFetchError, ConfigParseError } from '../errors/validation.js';
+import { BaseLoader } from './base.js';
+import { getErrorLocation } from './file.js';
+import { DEFAULT_MASK, isSensitiveKey } from '../utils/mask.js';
+import { fetchWithTimeout } from '../plugins/fetch.js';
+
+/**
+ * Options for HTTP loading
+ */
+export interface HttpLoaderOptions {
+  url: string;
+  format?: 'json' | 'yaml' | 'auto';
+  headers?: Record<string, string>;
+  auth?: HttpAuth;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+  /** Retries after a failed request (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled on each retry (default: 200) */
+  retryDelay?: number;
+  /** Return an empty object when the server responds with 404 */
+  optional?: boolean;
+  /** File to cache the last response in, relative to the working directory */
+  cache?: string;
+  /** Collects the validators of each fetched URL, for polling */
+  validators?: Map<string, HttpValidators>;
+  /** Receives every request that timed out and every retry, e.g. to report them as `source` events */
+  report?: (event: HttpRequestEvent) => void;
+}
+
+/**
+ * A request that timed out (`timeout`) or is retried after `delay` milliseconds (`retry`)
+ */
+export interface HttpRequestEvent {
+  action: 'timeout' | 'retry';
+  error: ConfigFetchError;
+  /** The request that failed, starting at 1 */
+  attempt: number;
+  /** Milliseconds until the retry (`retry`) */
+  delay?: number;
+}
+
+/**
+ * What polling compares a response against to tell whether it changed
+ */
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+  /** SHA-256 of the body, for servers that send neither header */
+  hash: string;
+}
+
+/**
+ * A successful response, as stored in the cache file
+ */
+interface HttpResponseData {
+  url: string;
+  contentType: string;
+  etag?: string;
+  lastModified?: string;
+  body: string;
+}
+
+/**
+ * Query parameters holding credentials, in addition to the masking defaults
+ */
+const SENSITIVE_QUERY_PATTERNS = [/^key$/i, /sig/i];
+
+/**
+ * Statuses worth retrying: rate limiting and server errors
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Strip credentials from a URL before it appears in provenance and errors:
+ * the username, the password and query parameters like `token` or `api_key`
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  parsed.username = '';
+  parsed.password = '';
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (isSensitiveKey(name, { patterns: SENSITIVE_QUERY_PATTERNS })) {
+      parsed.searchParams.set(name, DEFAULT_MASK);
+    }
+  }
+
+  // URLSearchParams percent-encodes the mask
+  return parsed.href.replaceAll(encodeURIComponent(DEFAULT_MASK), DEFAULT_MASK);
+}
+
+/**
+ * Hash a response body, to detect changes without validators
+ */
+function hashBody(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * Wrap errors that are not already a ConfigFetchError, such as a failing response stream
+ */
+function toFetchError(url: string, error: unknown): ConfigFetchError {
+  if (error instanceof ConfigFetchError) return error;
+  return new ConfigFetchError(redactUrl(url), error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Build request headers, including authentication
+ */
+function buildHeaders(options: HttpLoaderOptions, validators?: HttpValidators): Record<string, string> {
+  const headers: Record<string, string> = {
+    accept: 'application/json, application/yaml;q=0.9, text/yaml;q=0.9, */*;q=0.5',
+    ...options.headers,
+  };
+
+  if (options.auth?.type === 'bearer') {
+    headers.authorization = `Bearer ${options.auth.token}`;
+  } else if (options.auth?.type === 'basic') {
+    const credentials = Buffer.from(`${options.auth.username}:${options.auth.password}`).toString('base64');
+    headers.authorization = `Basic ${credentials}`;
+  }
+
+  if (validators?.etag) {
+    headers['if-none-match'] = validators.etag;
+  }
+  if (validators?.lastModified) {
+    headers['if-modified-since'] = validators.lastModified;
+  }
+
+  return headers;
+}
+
+/**
+ * Wait before the next retry
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Perform a request, retrying network errors, timeouts and retryable statuses
+ * with exponential backoff.
+ * Resolves with the final response, which may still be an error status.
+ */
+async function fetchWithRetry(options: HttpLoaderOptions, validators?: HttpValidators): Promise<Response> {
+  const { url, timeout = 10000, retries = 2, retryDelay = 200, report } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    let error: ConfigFetchError;
+    let timedOut = false;
+
+    try {
+      const response = await fetchWithTimeout(url, {
+        headers: buildHeaders(options, validators),
+        timeout,
+        displayUrl: redactUrl(url),
+        onTimeout: () => {
+          timedOut = true;
+        },
+      });
+
+      if (!isRetryableStatus(response.status) || attempt > retries) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      error = new ConfigFetchError(redactUrl(url), `HTTP ${response.status}`, response.status);
+    } catch (caught) {
+      error = toFetchError(url, caught);
+    }
+
+    if (timedOut) {
+      report?.({ action: 'timeout', error, attempt });
+    }
+    if (attempt > retries) throw error;
+
+    const delay = retryDelay * 2 ** (attempt - 1);
+    report?.({ action: 'retry', error, attempt, delay });
+    await sleep(delay);
+  }
+}
+
+/**
+ * Parse a response body as JSON or YAML
+ */
+function parseBody(data: HttpResponseData, format: HttpLoaderOptions['format'] = 'auto'): Record<string, unknown> {
+  const resolvedFormat = format !== 'auto'
+    ? format
+    : /yaml|yml/i.test(data.contentType) || ['.yaml', '.yml'].includes(extname(new URL(data.url).pathname))
+      ? 'yaml'
+      : 'json';
+
+  try {
+    const parsed: unknown = resolvedFormat === 'yaml' ? parseYaml(data.body) : JSON.parse(data.body);
+    return (parsed ?? {}) as Record<string, unknown>;
+  } catch (error) {
+    throw new ConfigParseError(
+      redactUrl(data.url),
+      error instanceof Error ? error : new Error(String(error)),
+      getErrorLocation(error, data.body)
+    );
+  }
+}
+
+/**
+ * Loader for configuration served over HTTP(S)
+ */
+export class HttpLoader extends BaseLoader<HttpLoaderOptions> {
+  readonly name = 'http';
+
+  async load(
+    options: HttpLoaderOptions,
+    context: LoaderContext
+  ): Promise<Record<string, unknown>> {
+    const cachePath = options.cache ? resolve(context.cwd, options.cache) : undefined;
+    let data: HttpResponseData;
+
+    try {
+      const response = await fetchWithRetry(options);
+
+      if (response.status === 404 && options.optional) {
+        return {};
+      }
+      if (!response.ok) {
+        throw new ConfigFetchError(redactUrl(options.url), `HTTP ${response.status}`, response.status);
+      }
+
+      data = {
+        url: options.url,
+        contentType: response.headers.get('content-type') ?? '',
+        body: await response.text(),
+      };
+      const etag = response.headers.get('etag');
+      if (etag) data.etag = etag;
+      const lastModified = response.headers.get('last-modified');
+      if (lastModified) data.lastModified = lastModified;
+    } catch (error) {
+      const fetchError = toFetchError(options.url, error);
+
+      // Fall back to the last response we cached
+      if (!cachePath || !existsSync(cachePath)) throw fetchError;
+      try {
+        data = JSON.parse(await readFile(cachePath, 'utf-8')) as HttpResponseData;
+      } catch {
+        // An unreadable cache is no fallback
+        throw fetchError;
+      }
+      return parseBody(data, options.format);
+    }
+
+    const parsed = parseBody(data, options.format);
+
+    const validators: HttpValidators = { hash: hashBody(data.body) };
+    if (data.etag) validators.etag = data.etag;
+    if (data.lastModified) validators.lastModified = data.lastModified;
+    options.validators?.set(options.url, validators);
+
+    if (cachePath) {
+      await mkdir(dirname(cachePath), { recursive: true });
+      await writeFile(cachePath, JSON.stringify(data), { mode: 0o600 });
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Check whether the resource changed since it was last loaded.
+   * Sends `If-None-Match`/`If-Modified-Since` and treats 304 as unchanged;
+   * compares the ETag or Last-Modified header, or else a hash of the body.
+   */
+  async hasChanged(options: HttpLoaderOptions, validators: HttpValidators | undefined): Promise<boolean> {
+    const response = await fetchWithRetry(options, validators);
+
+    if (response.status === 304) {
+      await response.body?.cancel();
+      return false;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new ConfigFetchError(redactUrl(options.url), `HTTP ${response.status}`, response.status);
+    }
+
+    // Release the connection when the headers tell; the reload fetches the body again
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+    if (!validators) {
+      await response.body?.cancel();
+      return true;
+    }
+    if (validators.etag && etag) {
+      await response.body?.cancel();
+      return etag !== validators.etag;
+    }
+    if (validators.lastModified && lastModified) {
+      await response.body?.cancel();
+      return lastModified !== validators.lastModified;
+    }
+
+    // Neither header: compare the body
+    try {
+      return hashBody(await response.text()) !== validators.hash;
+    } catch (error) {
+      throw toFetchError(options.url, error);
+    }
+  }
+}
+
+/**
+ * Create source metadata string for HTTP sources, without credentials
+ */
+export function formatHttpSource(url: string): string {
+  return `http: ${redactUrl(url)}`;
+}
@@ -2,3 +2,6 @@ export { BaseLoader } from './base.js';
 export { EnvLoader, formatEnvSource, type EnvLoaderOptions } from './env.js';
 export { FileLoader, formatFileSource, type FileLoaderOptions } from './file.js';
 export { parseDotenv, dotenvToNested } from './dotenv.js';
+export { DirectoryLoader, type DirectoryLoaderOptions } from './directory.js';
+export { ArgvLoader, getFlagNames, type ArgvLoaderOptions } from './argv.js';
+export { HttpLoader, formatHttpSource, type HttpLoaderOptions, type HttpValidators, type HttpRequestEvent } from './http.js';
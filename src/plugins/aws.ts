@@ -0,0 +1,333 @@
+import { createHash, createHmac } from 'node:crypto';
+import { z } from 'zod';
+import { ConfigFetchError, ConfigParseError } from '../errors/validation.js';
+import { isPlainObject, setByPath } from '../utils/deep-merge.js';
+import { fetchWithTimeout, readJson } from './fetch.js';
+import { definePlugin } from './registry.js';
+import type { Plugin, PluginLoadContext } from './types.js';
+
+/**
+ * AWS access keys
+ */
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+/**
+ * Options shared by the AWS plugins
+ */
+export interface AwsPluginOptions {
+  /** Plugin name used in sources (default: 'aws-secrets' or 'aws-ssm') */
+  name?: string;
+  /** AWS region (default: `AWS_REGION`, then `AWS_DEFAULT_REGION`) */
+  region?: string;
+  /**
+   * Service endpoint, e.g. `http://localhost:4566` for LocalStack
+   * (default: the public endpoint of the region)
+   */
+  endpoint?: string;
+  /**
+   * Access keys (default: `AWS_ACCESS_KEY_ID`, `AWS_SECRET_ACCESS_KEY`
+   * and `AWS_SESSION_TOKEN`)
+   */
+  credentials?: AwsCredentials;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+}
+
+/**
+ * Request to sign with AWS Signature Version 4
+ */
+export interface AwsRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Hex-encoded SHA-256 hash
+ */
+function sha256(data: string): string {
+  return createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+/**
+ * HMAC-SHA256 digest
+ */
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+/**
+ * URI-encode a query component the way SigV4 expects (RFC 3986)
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4.
+ * Returns the request headers with `host`, `x-amz-date`, the session token
+ * (if any) and `authorization` added.
+ */
+export function signAwsRequest(
+  request: AwsRequest,
+  options: { region: string; service: string; credentials: AwsCredentials; date?: Date }
+): Record<string, string> {
+  const { region, service, credentials, date = new Date() } = options;
+  const url = new URL(request.url);
+
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name.toLowerCase()] = value;
+  }
+  headers.host = url.host;
+  headers['x-amz-date'] = amzDate;
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken;
+  }
+
+  const headerNames = Object.keys(headers).sort();
+  const canonicalHeaders = headerNames
+    .map((name) => `${name}:${headers[name]!.trim().replace(/\s+/g, ' ')}\n`)
+    .join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalQuery = [...url.searchParams]
+    .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    url.pathname || '/',
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    sha256(request.body),
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), service),
+    'aws4_request'
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+  return headers;
+}
+
+/**
+ * Call an AWS JSON 1.1 API action (Secrets Manager, SSM)
+ */
+async function callAws(
+  service: string,
+  target: string,
+  payload: Record<string, unknown>,
+  options: AwsPluginOptions,
+  context: PluginLoadContext
+): Promise<Record<string, unknown>> {
+  const { timeout = 10000 } = options;
+  const region = options.region ?? context.env.AWS_REGION ?? context.env.AWS_DEFAULT_REGION;
+  const endpoint = options.endpoint ?? (region ? `https://${service}.${region}.amazonaws.com` : undefined);
+
+  if (!region || !endpoint) {
+    throw new ConfigFetchError(service, 'No AWS region: set `region` or AWS_REGION');
+  }
+
+  let credentials = options.credentials;
+  if (!credentials) {
+    const { AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN } = context.env;
+    if (!AWS_ACCESS_KEY_ID || !AWS_SECRET_ACCESS_KEY) {
+      throw new ConfigFetchError(endpoint, 'No AWS credentials: set `credentials` or AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY');
+    }
+    credentials = { accessKeyId: AWS_ACCESS_KEY_ID, secretAccessKey: AWS_SECRET_ACCESS_KEY };
+    if (AWS_SESSION_TOKEN) credentials.sessionToken = AWS_SESSION_TOKEN;
+  }
+
+  const url = `${endpoint.replace(/\/+$/, '')}/`;
+  const body = JSON.stringify(payload);
+  const headers = signAwsRequest(
+    {
+      method: 'POST',
+      url,
+      headers: { 'content-type': 'application/x-amz-json-1.1', 'x-amz-target': target },
+      body,
+    },
+    { region, service, credentials }
+  );
+  // fetch sets the Host header itself
+  delete headers.host;
+
+  const response = await fetchWithTimeout(url, { method: 'POST', headers, body, timeout, signal: context.signal });
+
+  const result = await readJson(response, url);
+
+  if (!response.ok) {
+    // Error types look like "ResourceNotFoundException" or "com.amazonaws...#ResourceNotFoundException"
+    const type = String(result.__type ?? `HTTP ${response.status}`).split('#').pop();
+    const message = result.message ?? result.Message;
+    throw new ConfigFetchError(url, `${target}: ${type}${message ? `: ${String(message)}` : ''}`, response.status);
+  }
+
+  return result;
+}
+
+const secretsSourceSchema = z.object({
+  /** Secret name or ARN */
+  secretId: z.string().min(1),
+  /** Version stage to read (default: AWSCURRENT) */
+  versionStage: z.string().optional(),
+  /** Config path to place the secret under; required for secrets that are not JSON objects */
+  at: z.string().optional(),
+});
+
+/**
+ * Options of an AWS Secrets Manager plugin source
+ */
+export type AwsSecretsSourceOptions = z.input<typeof secretsSourceSchema>;
+
+/**
+ * Create a plugin that loads a secret from AWS Secrets Manager.
+ * JSON secrets are merged at the root, or under `at`; other secrets need `at`.
+ * `getSource()` reports the secret's ARN.
+ *
+ * @example
+ * ```typescript
+ * plugins: [createAwsSecretsPlugin({ region: 'eu-west-1' })],
+ * sources: [{ type: 'plugin', name: 'aws-secrets', options: { secretId: 'myapp/prod/db', at: 'database' } }],
+ * ```
+ */
+export function createAwsSecretsPlugin(
+  pluginOptions: AwsPluginOptions = {}
+): Plugin<z.output<typeof secretsSourceSchema>> {
+  return definePlugin<z.output<typeof secretsSourceSchema>>({
+    name: pluginOptions.name ?? 'aws-secrets',
+    optionsSchema: secretsSourceSchema,
+
+    async load(options, context) {
+      const payload: Record<string, unknown> = { SecretId: options.secretId };
+      if (options.versionStage) payload.VersionStage = options.versionStage;
+
+      const secret = await callAws('secretsmanager', 'secretsmanager.GetSecretValue', payload, pluginOptions, context);
+      const arn = String(secret.ARN ?? options.secretId);
+      const raw = typeof secret.SecretString === 'string'
+        ? secret.SecretString
+        : Buffer.from(String(secret.SecretBinary ?? ''), 'base64').toString('utf-8');
+
+      let value: unknown = raw;
+      try {
+        value = JSON.parse(raw);
+      } catch (error) {
+        if (!options.at) {
+          throw new ConfigParseError(arn, error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+
+      const result: Record<string, unknown> = {};
+      if (options.at) {
+        setByPath(result, options.at, value);
+        context.setSource?.(options.at, `aws-secrets: ${arn}`);
+        return result;
+      }
+
+      if (!isPlainObject(value)) {
+        throw new ConfigParseError(arn, new Error('Secret is not a JSON object; set `at` to place it in the config'));
+      }
+      for (const key of Object.keys(value)) {
+        context.setSource?.(key, `aws-secrets: ${arn}`);
+      }
+      return value;
+    },
+  });
+}
+
+const ssmSourceSchema = z.object({
+  /** Parameter hierarchy to load, e.g. `/myapp/prod` */
+  path: z.string().startsWith('/'),
+  /** Include parameters in nested levels of the hierarchy */
+  recursive: z.boolean().default(true),
+  /** Decrypt SecureString parameters */
+  withDecryption: z.boolean().default(true),
+  /** Config path to place the parameters under */
+  at: z.string().optional(),
+});
+
+/**
+ * Options of an SSM Parameter Store plugin source
+ */
+export type SsmSourceOptions = z.input<typeof ssmSourceSchema>;
+
+/**
+ * A parameter returned by GetParametersByPath
+ */
+interface SsmParameter {
+  Name: string;
+  Type: string;
+  Value: string;
+}
+
+/**
+ * Create a plugin that loads a parameter hierarchy from AWS Systems Manager
+ * Parameter Store. Names below the path map onto config paths
+ * (`/myapp/prod/database/host` -> `database.host`); StringList parameters
+ * become arrays. Values are strings, so use `z.coerce` for numbers and booleans.
+ * `getSource()` reports the name of each parameter.
+ *
+ * @example
+ * ```typescript
+ * plugins: [createSsmPlugin({ region: 'eu-west-1' })],
+ * sources: [{ type: 'plugin', name: 'aws-ssm', options: { path: '/myapp/prod' } }],
+ * ```
+ */
+export function createSsmPlugin(
+  pluginOptions: AwsPluginOptions = {}
+): Plugin<z.output<typeof ssmSourceSchema>> {
+  return definePlugin<z.output<typeof ssmSourceSchema>>({
+    name: pluginOptions.name ?? 'aws-ssm',
+    optionsSchema: ssmSourceSchema,
+
+    async load(options, context) {
+      const prefix = options.path.replace(/\/+$/, '');
+      const result: Record<string, unknown> = {};
+      let nextToken: string | undefined;
+
+      do {
+        const payload: Record<string, unknown> = {
+          Path: prefix || '/',
+          Recursive: options.recursive,
+          WithDecryption: options.withDecryption,
+          MaxResults: 10,
+        };
+        if (nextToken) payload.NextToken = nextToken;
+
+        const page = await callAws('ssm', 'AmazonSSM.GetParametersByPath', payload, pluginOptions, context);
+
+        for (const parameter of (page.Parameters ?? []) as SsmParameter[]) {
+          const relative = parameter.Name.slice(prefix.length).split('/').filter(Boolean).join('.');
+          if (!relative) continue;
+
+          const path = options.at ? `${options.at}.${relative}` : relative;
+          setByPath(result, path, parameter.Type === 'StringList' ? parameter.Value.split(',') : parameter.Value);
+          context.setSource?.(path, `aws-ssm: ${parameter.Name}`);
+        }
+
+        nextToken = typeof page.NextToken === 'string' ? page.NextToken : undefined;
+      } while (nextToken);
+
+      return result;
+    },
+  });
+}
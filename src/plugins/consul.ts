@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import { ConfigFetchError } from '../errors/validation.js';
+import { setByPath } from '../utils/deep-merge.js';
+import { fetchWithTimeout, readJson } from './fetch.js';
+import { definePlugin } from './registry.js';
+import type { Plugin, PluginLoadContext } from './types.js';
+
+/**
+ * Options for creating the Consul plugin
+ */
+export interface ConsulPluginOptions {
+  /** Plugin name used in sources (default: 'consul') */
+  name?: string;
+  /** Consul address (default: `CONSUL_HTTP_ADDR`, then `http://127.0.0.1:8500`) */
+  address?: string;
+  /** ACL token (default: `CONSUL_HTTP_TOKEN`) */
+  token?: string;
+  /** Datacenter to query (default: the agent's datacenter) */
+  datacenter?: string;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+  /** How long a blocking query waits for changes, in milliseconds (default: 300000) */
+  waitTime?: number;
+}
+
+const consulSourceSchema = z.object({
+  /** Key prefix to load, e.g. `myapp/prod/` */
+  prefix: z.string(),
+  /** Config path to place the keys under */
+  at: z.string().optional(),
+});
+
+/**
+ * Options of a Consul plugin source
+ */
+export type ConsulSourceOptions = z.input<typeof consulSourceSchema>;
+
+type ParsedConsulSourceOptions = z.output<typeof consulSourceSchema>;
+
+/**
+ * An entry returned by the KV endpoint
+ */
+interface ConsulKeyValue {
+  Key: string;
+  Value: string | null;
+}
+
+/**
+ * Decoded keys and values of the entries, to tell whether two reads differ
+ */
+function describeEntries(entries: ConsulKeyValue[]): string {
+  return JSON.stringify(entries
+    .filter((entry) => entry.Value !== null)
+    .map((entry) => [entry.Key, Buffer.from(entry.Value!, 'base64').toString('utf-8')]));
+}
+
+/**
+ * Longest delay between retries of a failing watch, in milliseconds
+ */
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Wait, returning early when the signal is aborted
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Create a plugin that reads a Consul KV prefix into nested config.
+ * Keys below the prefix map onto config paths (`myapp/prod/database/host` ->
+ * `database.host`); values are strings, so use `z.coerce` for numbers and booleans.
+ *
+ * In watch mode, a blocking query on the prefix reloads the config as soon as
+ * any key below it changes.
+ *
+ * @example
+ * ```typescript
+ * plugins: [createConsulPlugin({ address: 'http://consul.internal:8500' })],
+ * sources: [{ type: 'plugin', name: 'consul', options: { prefix: 'myapp/prod/' } }],
+ * ```
+ */
+export function createConsulPlugin(pluginOptions: ConsulPluginOptions = {}): Plugin<ParsedConsulSourceOptions> {
+  const { name = 'consul', timeout = 10000, waitTime = 300000 } = pluginOptions;
+
+  /** `X-Consul-Index` of the last load, by prefix */
+  const indexes = new Map<string, string>();
+
+  /** Decoded entries of the last load, by prefix */
+  const contents = new Map<string, string>();
+
+  /**
+   * Read every key below a prefix, optionally blocking until the index changes
+   */
+  const readPrefix = async (
+    prefix: string,
+    context: PluginLoadContext,
+    blocking?: { index: string; signal: AbortSignal }
+  ): Promise<{ entries: ConsulKeyValue[]; index: string }> => {
+    let address = pluginOptions.address ?? context.env.CONSUL_HTTP_ADDR ?? 'http://127.0.0.1:8500';
+    if (!/^https?:\/\//.test(address)) address = `http://${address}`;
+
+    const url = new URL(`/v1/kv/${prefix}`, address);
+    url.searchParams.set('recurse', 'true');
+    if (pluginOptions.datacenter) url.searchParams.set('dc', pluginOptions.datacenter);
+    if (blocking) {
+      url.searchParams.set('index', blocking.index);
+      url.searchParams.set('wait', `${Math.ceil(waitTime / 1000)}s`);
+    }
+
+    const headers: Record<string, string> = { accept: 'application/json' };
+    const token = pluginOptions.token ?? context.env.CONSUL_HTTP_TOKEN;
+    if (token) headers['x-consul-token'] = token;
+
+    const response = await fetchWithTimeout(url.href, {
+      headers,
+      // Blocking queries return on their own once the wait time is up,
+      // plus up to 1/16 of jitter; give up on a connection that never answers
+      timeout: blocking ? waitTime + Math.ceil(waitTime / 16) + timeout : timeout,
+      signal: blocking ? blocking.signal : context.signal,
+    });
+
+    const index = response.headers.get('x-consul-index') ?? '0';
+
+    // No keys below the prefix
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return { entries: [], index };
+    }
+    if (!response.ok) {
+      const text = await response.text();
+      throw new ConfigFetchError(url.href, text.trim() || `HTTP ${response.status}`, response.status);
+    }
+
+    const entries = await readJson<unknown>(response, url.href);
+    return { entries: Array.isArray(entries) ? (entries as ConsulKeyValue[]) : [], index };
+  };
+
+  return definePlugin<ParsedConsulSourceOptions>({
+    name,
+    optionsSchema: consulSourceSchema,
+
+    async load(options, context) {
+      const { entries, index } = await readPrefix(options.prefix, context);
+      indexes.set(options.prefix, index);
+      contents.set(options.prefix, describeEntries(entries));
+
+      const result: Record<string, unknown> = {};
+
+      for (const entry of entries) {
+        // Folders have no value
+        if (entry.Value === null) continue;
+
+        const relative = entry.Key.slice(options.prefix.length).split('/').filter(Boolean).join('.');
+        if (!relative) continue;
+
+        const path = options.at ? `${options.at}.${relative}` : relative;
+        setByPath(result, path, Buffer.from(entry.Value, 'base64').toString('utf-8'));
+        context.setSource?.(path, `consul: ${entry.Key}`);
+      }
+
+      return result;
+    },
+
+    watch(options, context, notify) {
+      const controller = new AbortController();
+
+      const run = async (): Promise<void> => {
+        let index = indexes.get(options.prefix) ?? '0';
+        let failures = 0;
+
+        while (!controller.signal.aborted) {
+          try {
+            const result = await readPrefix(options.prefix, context, { index, signal: controller.signal });
+            failures = 0;
+
+            // The index went backwards (e.g. a restored snapshot); follow the new index,
+            // reloading only if the restored data differs from what was loaded
+            if (Number(result.index) < Number(index)) {
+              index = result.index;
+              if (describeEntries(result.entries) !== contents.get(options.prefix)) notify();
+              continue;
+            }
+            if (result.index !== index) {
+              index = result.index;
+              notify();
+            }
+          } catch (error) {
+            if (controller.signal.aborted) return;
+
+            notify(error instanceof Error ? error : new Error(String(error)));
+            failures++;
+            await sleep(Math.min(1000 * 2 ** (failures - 1), MAX_RETRY_DELAY), controller.signal);
+          }
+        }
+      };
+
+      void run();
+
+      return () => {
+        controller.abort();
+      };
+    },
+  });
+}
@@ -0,0 +1,314 @@
+import { z } from 'zod';
+import { ConfigFetchError } from '../errors/validation.js';
+import { setByPath } from '../utils/deep-merge.js';
+import { fetchWithTimeout, readJson } from './fetch.js';
+import { definePlugin } from './registry.js';
+import type { Plugin } from './types.js';
+
+/**
+ * Options for creating the etcd plugin
+ */
+export interface EtcdPluginOptions {
+  /** Plugin name used in sources (default: 'etcd') */
+  name?: string;
+  /** Address of the etcd v3 JSON gateway (default: `http://127.0.0.1:2379`) */
+  address?: string;
+  /** User to authenticate as, when etcd auth is enabled */
+  auth?: { username: string; password: string };
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+}
+
+const etcdSourceSchema = z.object({
+  /** Key prefix to load, e.g. `/myapp/prod/` */
+  prefix: z.string(),
+  /** Config path to place the keys under */
+  at: z.string().optional(),
+});
+
+/**
+ * Options of an etcd plugin source
+ */
+export type EtcdSourceOptions = z.input<typeof etcdSourceSchema>;
+
+type ParsedEtcdSourceOptions = z.output<typeof etcdSourceSchema>;
+
+/**
+ * A key/value pair returned by the gateway, base64-encoded
+ */
+interface EtcdKeyValue {
+  key: string;
+  value?: string;
+}
+
+/**
+ * A message of the watch stream
+ */
+interface EtcdWatchMessage {
+  result?: {
+    header?: { revision?: string };
+    events?: unknown[];
+    canceled?: boolean;
+    cancel_reason?: string;
+    /** Set when the watch was canceled because its start revision was compacted */
+    compact_revision?: string;
+  };
+  error?: { message?: string };
+}
+
+/**
+ * Longest delay between retries of a failing watch, in milliseconds
+ */
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Base64-encode a key or value for the gateway
+ */
+function toBase64(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64');
+}
+
+/**
+ * End of the key range covering every key with the prefix
+ */
+function prefixRangeEnd(prefix: string): string {
+  const bytes = Buffer.from(prefix);
+
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    if (bytes[i]! < 0xff) {
+      const end = bytes.subarray(0, i + 1);
+      end[i]!++;
+      return toBase64(end);
+    }
+  }
+
+  // Every byte is 0xff (or the prefix is empty): the range covers all keys
+  return toBase64(Buffer.from([0]));
+}
+
+/**
+ * Wait, returning early when the signal is aborted
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Create a plugin that reads an etcd v3 key prefix through the JSON gateway.
+ * Keys below the prefix map onto config paths (`/myapp/prod/database/host` ->
+ * `database.host`); values are strings, so use `z.coerce` for numbers and booleans.
+ *
+ * In watch mode, a watch stream on the prefix reloads the config as soon as
+ * any key below it changes.
+ *
+ * @example
+ * ```typescript
+ * plugins: [createEtcdPlugin({ address: 'http://etcd.internal:2379' })],
+ * sources: [{ type: 'plugin', name: 'etcd', options: { prefix: '/myapp/prod/' } }],
+ * ```
+ */
+export function createEtcdPlugin(pluginOptions: EtcdPluginOptions = {}): Plugin<ParsedEtcdSourceOptions> {
+  const { name = 'etcd', timeout = 10000 } = pluginOptions;
+  const address = (pluginOptions.address ?? 'http://127.0.0.1:2379').replace(/\/+$/, '');
+
+  let authToken: string | undefined;
+  /** Revision of the last load, by prefix */
+  const revisions = new Map<string, number>();
+
+  /**
+   * POST to a gateway endpoint.
+   * Watch streams stay open, so they end with their signal instead of the timeout.
+   */
+  const post = async (path: string, body: unknown, signal?: AbortSignal, stream = false): Promise<Response> => {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (authToken) headers.authorization = authToken;
+
+    return fetchWithTimeout(`${address}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      timeout: stream ? undefined : timeout,
+      signal,
+    });
+  };
+
+  /**
+   * POST to a gateway endpoint and parse the JSON response
+   */
+  const request = async (path: string, body: unknown, signal?: AbortSignal): Promise<Record<string, unknown>> => {
+    const response = await post(path, body, signal);
+    const result = await readJson(response, `${address}${path}`);
+
+    if (!response.ok) {
+      const message = result.message ?? result.error ?? `HTTP ${response.status}`;
+      throw new ConfigFetchError(`${address}${path}`, String(message), response.status);
+    }
+    return result;
+  };
+
+  const authenticate = async (signal?: AbortSignal): Promise<void> => {
+    if (!pluginOptions.auth || authToken) return;
+
+    const { username, password } = pluginOptions.auth;
+    const result = await request('/v3/auth/authenticate', { name: username, password }, signal);
+    authToken = String(result.token);
+  };
+
+  /**
+   * Read every key below a prefix
+   */
+  const readPrefix = async (prefix: string, signal?: AbortSignal): Promise<{ kvs: EtcdKeyValue[]; revision: number }> => {
+    await authenticate(signal);
+
+    const range = { key: toBase64(prefix), range_end: prefixRangeEnd(prefix) };
+    let result: Record<string, unknown>;
+    try {
+      result = await request('/v3/kv/range', range, signal);
+    } catch (error) {
+      // The token may have expired; authenticate again once
+      if (!(error instanceof ConfigFetchError) || error.status !== 401 || !pluginOptions.auth) throw error;
+      authToken = undefined;
+      await authenticate(signal);
+      result = await request('/v3/kv/range', range, signal);
+    }
+
+    const header = result.header as { revision?: string } | undefined;
+    return {
+      kvs: (result.kvs ?? []) as EtcdKeyValue[],
+      revision: Number(header?.revision ?? 0),
+    };
+  };
+
+  /**
+   * Follow a watch stream until it ends.
+   * Calls `onChange` for every message with events and returns the last revision seen.
+   * When the revisions it should replay were compacted, it calls `onChange` to reload
+   * and returns the current revision, so the next watch starts from there.
+   */
+  const followWatch = async (
+    prefix: string,
+    revision: number,
+    signal: AbortSignal,
+    onChange: () => void
+  ): Promise<number> => {
+    const watch = async (): Promise<Response> => {
+      await authenticate(signal);
+      return post('/v3/watch', {
+        create_request: {
+          key: toBase64(prefix),
+          range_end: prefixRangeEnd(prefix),
+          start_revision: String(revision + 1),
+        },
+      }, signal, true);
+    };
+
+    let response = await watch();
+
+    // The token may have expired; authenticate again once
+    if (response.status === 401 && pluginOptions.auth) {
+      await response.body?.cancel();
+      authToken = undefined;
+      response = await watch();
+    }
+
+    if (!response.ok || !response.body) {
+      throw new ConfigFetchError(`${address}/v3/watch`, `HTTP ${response.status}`, response.status);
+    }
+
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    for await (const chunk of response.body) {
+      buffered += decoder.decode(chunk, { stream: true });
+
+      let newline: number;
+      while ((newline = buffered.indexOf('\n')) >= 0) {
+        const line = buffered.slice(0, newline).trim();
+        buffered = buffered.slice(newline + 1);
+        if (!line) continue;
+
+        const message = JSON.parse(line) as EtcdWatchMessage;
+        if (message.result?.canceled && Number(message.result.compact_revision ?? 0) > 0) {
+          onChange();
+          return Number(message.result.header?.revision ?? message.result.compact_revision);
+        }
+        if (message.error || message.result?.canceled) {
+          const reason = message.error?.message ?? message.result?.cancel_reason ?? 'Watch canceled';
+          throw new ConfigFetchError(`${address}/v3/watch`, reason);
+        }
+
+        if (message.result?.events?.length) {
+          revision = Math.max(revision, Number(message.result.header?.revision ?? 0));
+          onChange();
+        }
+      }
+    }
+
+    return revision;
+  };
+
+  return definePlugin<ParsedEtcdSourceOptions>({
+    name,
+    optionsSchema: etcdSourceSchema,
+
+    async load(options, context) {
+      const { kvs, revision } = await readPrefix(options.prefix, context.signal);
+      revisions.set(options.prefix, revision);
+
+      const result: Record<string, unknown> = {};
+
+      for (const kv of kvs) {
+        const key = Buffer.from(kv.key, 'base64').toString('utf-8');
+        const relative = key.slice(options.prefix.length).split('/').filter(Boolean).join('.');
+        if (!relative) continue;
+
+        const path = options.at ? `${options.at}.${relative}` : relative;
+        setByPath(result, path, Buffer.from(kv.value ?? '', 'base64').toString('utf-8'));
+        context.setSource?.(path, `etcd: ${key}`);
+      }
+
+      return result;
+    },
+
+    watch(options, _context, notify) {
+      const controller = new AbortController();
+
+      const run = async (): Promise<void> => {
+        let revision = revisions.get(options.prefix) ?? 0;
+        let failures = 0;
+
+        while (!controller.signal.aborted) {
+          try {
+            revision = await followWatch(options.prefix, revision, controller.signal, () => {
+              failures = 0;
+              notify();
+            });
+          } catch (error) {
+            if (controller.signal.aborted) return;
+            notify(error instanceof Error ? error : new Error(String(error)));
+          }
+
+          // Reconnect with backoff, whether the stream failed or the server ended it
+          failures++;
+          await sleep(Math.min(1000 * 2 ** (failures - 1), MAX_RETRY_DELAY), controller.signal);
+        }
+      };
+
+      void run();
+
+      return () => {
+        controller.abort();
+      };
+    },
+
+    dispose() {
+      authToken = undefined;
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import { ConfigFetchError } from '../errors/validation.js';
+
+/**
+ * Read a JSON response body. An empty body is an empty object.
+ * Bodies that are not JSON, such as the HTML error page of a proxy,
+ * fail with a ConfigFetchError carrying the status.
+ */
+export async function readJson<T = Record<string, unknown>>(response: Response, url: string): Promise<T> {
+  let text: string;
+  try {
+    text = await response.text();
+  } catch (error) {
+    throw new ConfigFetchError(url, error instanceof Error ? error.message : String(error), response.status);
+  }
+
+  if (!text.trim()) return {} as T;
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    const reason = response.ok ? 'Response is not valid JSON' : `HTTP ${response.status}`;
+    throw new ConfigFetchError(url, reason, response.status);
+  }
+}
+
+/**
+ * Options of `fetchWithTimeout()`
+ */
+export interface FetchWithTimeoutOptions extends Omit<RequestInit, 'signal'> {
+  /** Abort the request after this many milliseconds */
+  timeout?: number | undefined;
+  /** Also abort the request with this signal, e.g. the `context.signal` of a plugin load */
+  signal?: AbortSignal | undefined;
+  /** URL to report in errors, e.g. with its credentials redacted (default: the requested URL) */
+  displayUrl?: string;
+  /** Called when the timeout aborts the request, before the ConfigFetchError is thrown */
+  onTimeout?: () => void;
+}
+
+/**
+ * Fetch a URL, aborting it after the timeout or when the signal aborts.
+ * Network errors, timeouts and aborts fail with a ConfigFetchError.
+ */
+export async function fetchWithTimeout(url: string, options: FetchWithTimeoutOptions): Promise<Response> {
+  const { timeout, signal, displayUrl = url, onTimeout, ...init } = options;
+  const timedOut = timeout !== undefined ? AbortSignal.timeout(timeout) : undefined;
+  const signals = [timedOut, signal].filter((item): item is AbortSignal => item !== undefined);
+
+  try {
+    return await fetch(url, { ...init, signal: anySignal(signals) ?? null });
+  } catch (error) {
+    if (timedOut?.aborted) {
+      onTimeout?.();
+      throw new ConfigFetchError(displayUrl, `Timed out after ${timeout}ms`);
+    }
+    throw new ConfigFetchError(displayUrl, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Combine signals into one that aborts with the first of them.
+ * `AbortSignal.any()` needs Node 20.3.
+ */
+function anySignal(signals: AbortSignal[]): AbortSignal | undefined {
+  if (signals.length <= 1) return signals[0];
+
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    // Removed once the combined signal aborts, so long-lived signals do not collect listeners
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true, signal: controller.signal });
+  }
+  return controller.signal;
+}
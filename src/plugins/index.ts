@@ -1,4 +1,4 @@
-export type { Plugin, DefinePluginOptions } from './types.js';
+export type { Plugin, DefinePluginOptions, PluginLoadContext, PluginNotify, PluginUnwatch, SecretReference } from './types.js';
 export {
   registerPlugin,
   getPlugin,
@@ -8,3 +8,11 @@ export {
   clearPlugins,
   definePlugin,
 } from './registry.js';
+export { createVaultPlugin } from './vault.js';
+export type { VaultPluginOptions, VaultAuth, VaultSourceOptions } from './vault.js';
+export { createAwsSecretsPlugin, createSsmPlugin } from './aws.js';
+export type { AwsPluginOptions, AwsCredentials, AwsSecretsSourceOptions, SsmSourceOptions } from './aws.js';
+export { createConsulPlugin } from './consul.js';
+export type { ConsulPluginOptions, ConsulSourceOptions } from './consul.js';
+export { createEtcdPlugin } from './etcd.js';
+export type { EtcdPluginOptions, EtcdSourceOptions } from './etcd.js';
@@ -1,10 +1,16 @@
 import type { Plugin, DefinePluginOptions } from './types.js';
+import type { LoaderContext } from '../core/types.js';
 
 /**
  * Global plugin registry
  */
 const plugins = new Map<string, Plugin>();
 
+/**
+ * Number of configs using each plugin, and the promise of its init()
+ */
+const users = new WeakMap<Plugin, { count: number; ready: Promise<void> }>();
+
 /**
  * Register a plugin for use in configuration loading
  */
@@ -52,14 +58,59 @@ export function clearPlugins(): void {
   plugins.clear();
 }
 
+/**
+ * Start using a plugin from one more config.
+ * Runs the plugin's init() for the first config; later ones wait for it.
+ */
+export function acquirePlugin(plugin: Plugin, context: LoaderContext): Promise<void> {
+  const entry = users.get(plugin);
+  if (entry) {
+    entry.count++;
+    return entry.ready;
+  }
+
+  const ready = Promise.resolve().then(() => plugin.init?.(context));
+  users.set(plugin, { count: 1, ready });
+
+  // A failed init is retried by the next config using the plugin
+  ready.catch(() => {
+    if (users.get(plugin)?.ready === ready) users.delete(plugin);
+  });
+
+  return ready;
+}
+
+/**
+ * Stop using a plugin from one config.
+ * Runs the plugin's dispose() once no config uses it anymore.
+ */
+export async function releasePlugin(plugin: Plugin): Promise<void> {
+  const entry = users.get(plugin);
+  if (!entry) return;
+
+  entry.count--;
+  if (entry.count > 0) return;
+
+  users.delete(plugin);
+  await plugin.dispose?.();
+}
+
 /**
  * Helper to define a plugin with type safety
  */
 export function definePlugin<TOptions = Record<string, unknown>>(
   options: DefinePluginOptions<TOptions>
 ): Plugin<TOptions> {
-  return {
+  const plugin: Plugin<TOptions> = {
     name: options.name,
     load: options.load,
   };
+
+  if (options.optionsSchema) plugin.optionsSchema = options.optionsSchema;
+  if (options.init) plugin.init = options.init;
+  if (options.watch) plugin.watch = options.watch;
+  if (options.resolve) plugin.resolve = options.resolve;
+  if (options.dispose) plugin.dispose = options.dispose;
+
+  return plugin;
 }
@@ -1,5 +1,50 @@
+import type { z } from 'zod';
 import type { LoaderContext } from '../core/types.js';
 
+/**
+ * Callback a watching plugin calls when its data changed.
+ * Passing an error reports it as an `error` event instead of reloading.
+ */
+export type PluginNotify = (error?: Error) => void;
+
+/**
+ * Stops a plugin watch started by `Plugin.watch()`
+ */
+export type PluginUnwatch = () => void | Promise<void>;
+
+/**
+ * Context passed to `Plugin.load()`
+ */
+export interface PluginLoadContext extends LoaderContext {
+  /**
+   * Describe where the value at a path (and everything below it) came from.
+   * `getSource()` reports this instead of `plugin: <name>`.
+   * Absent when the plugin is called directly with a plain `LoaderContext`, so call it as `context.setSource?.(...)`.
+   */
+  setSource?(path: string, source: string): void;
+  /**
+   * Aborted when the load attempt times out (see the source's `timeout`).
+   * Pass it to `fetch()` and other cancellable calls.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A `ref+<plugin>://<location>?<params>#<key>` secret reference found in the config
+ */
+export interface SecretReference {
+  /** The whole reference, e.g. `ref+vault://secret/db#password` */
+  uri: string;
+  /** Name of the plugin resolving it, e.g. `vault` */
+  scheme: string;
+  /** Location of the secret in the backend, e.g. `secret/db` */
+  location: string;
+  /** Query parameters, e.g. `{ version: '1' }` for `ref+vault://kv/db?version=1` */
+  params: Record<string, string>;
+  /** Key to pick from the secret (the `#fragment`), if any */
+  key?: string;
+}
+
 /**
  * Plugin definition interface
  */
@@ -9,10 +54,47 @@ export interface Plugin<TOptions = Record<string, unknown>> {
    */
   name: string;
 
+  /**
+   * Schema for the plugin's options (optional).
+   * Options are validated before `load()` and `watch()` receive them.
+   */
+  optionsSchema?: z.ZodType<TOptions>;
+
+  /**
+   * Prepare the plugin before a config first uses it, e.g. authenticate (optional).
+   * Runs once, however many configs use the plugin; if it fails, the next load retries it.
+   */
+  init?(context: LoaderContext): void | Promise<void>;
+
   /**
    * Load configuration from the plugin source
    */
-  load(options: TOptions, context: LoaderContext): Promise<Record<string, unknown>>;
+  load(options: TOptions, context: PluginLoadContext): Promise<Record<string, unknown>>;
+
+  /**
+   * Watch the plugin source for changes (optional).
+   * Called by `Config.watch()` for each source using the plugin; call `notify()`
+   * to schedule a reload. May return a function that stops watching,
+   * which `Config.unwatch()` calls.
+   */
+  watch?(
+    options: TOptions,
+    context: LoaderContext,
+    notify: PluginNotify
+  ): void | PluginUnwatch | Promise<void | PluginUnwatch>;
+
+  /**
+   * Resolve `ref+<name>://` secret references (optional).
+   * Receives every uncached reference to the plugin in the merged config at once
+   * and returns their values in the same order.
+   */
+  resolve?(references: SecretReference[], context: LoaderContext): Promise<unknown[]>;
+
+  /**
+   * Release resources held by the plugin, such as connections or timers (optional).
+   * Called by `Config.close()` once no other config uses the plugin.
+   */
+  dispose?(): void | Promise<void>;
 }
 
 /**
@@ -20,5 +102,14 @@ export interface Plugin<TOptions = Record<string, unknown>> {
  */
 export interface DefinePluginOptions<TOptions = Record<string, unknown>> {
   name: string;
-  load(options: TOptions, context: LoaderContext): Promise<Record<string, unknown>>;
+  optionsSchema?: z.ZodType<TOptions>;
+  init?(context: LoaderContext): void | Promise<void>;
+  load(options: TOptions, context: PluginLoadContext): Promise<Record<string, unknown>>;
+  watch?(
+    options: TOptions,
+    context: LoaderContext,
+    notify: PluginNotify
+  ): void | PluginUnwatch | Promise<void | PluginUnwatch>;
+  resolve?(references: SecretReference[], context: LoaderContext): Promise<unknown[]>;
+  dispose?(): void | Promise<void>;
 }
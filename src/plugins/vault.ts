@@ -0,0 +1,360 @@
+import { z } from 'zod';
+import type { LoaderContext } from '../core/types.js';
+import { ConfigFetchError } from '../errors/validation.js';
+import { setByPath } from '../utils/deep-merge.js';
+import { fetchWithTimeout, readJson } from './fetch.js';
+import { definePlugin } from './registry.js';
+import type { Plugin, PluginLoadContext } from './types.js';
+
+/**
+ * Vault authentication: a token, or an AppRole login
+ */
+export type VaultAuth =
+  | { type: 'token'; token: string }
+  | {
+      type: 'approle';
+      roleId: string;
+      secretId: string;
+      /** Mount path of the AppRole auth method (default: 'approle') */
+      mount?: string;
+    };
+
+/**
+ * Options for creating the Vault plugin
+ */
+export interface VaultPluginOptions {
+  /** Plugin name used in sources (default: 'vault') */
+  name?: string;
+  /** Vault address, e.g. `https://vault.internal:8200` (default: `VAULT_ADDR`) */
+  address?: string;
+  /** Authentication (default: the token in `VAULT_TOKEN`) */
+  auth?: VaultAuth;
+  /** Vault Enterprise namespace (default: `VAULT_NAMESPACE`) */
+  namespace?: string;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+}
+
+const vaultSourceSchema = z.object({
+  /** Secret path below the mount, e.g. `myapp/database` */
+  path: z.string().min(1),
+  /** Mount path of the KV secrets engine */
+  mount: z.string().default('secret'),
+  /** KV secrets engine version */
+  version: z.union([z.literal(1), z.literal(2)]).default(2),
+  /** Secret key -> config path; only mapped keys are loaded */
+  keys: z.record(z.string(), z.string()).optional(),
+  /** Config path to place the secret's keys under (ignored with `keys`) */
+  at: z.string().optional(),
+});
+
+/**
+ * Options of a Vault plugin source
+ */
+export type VaultSourceOptions = z.input<typeof vaultSourceSchema>;
+
+type ParsedVaultSourceOptions = z.output<typeof vaultSourceSchema>;
+
+/**
+ * Lease of a secret read from Vault
+ */
+interface VaultLease {
+  id: string;
+  /** Seconds the secret is valid for */
+  duration: number;
+  renewable: boolean;
+}
+
+/**
+ * Fraction of a renewable lease after which it is renewed
+ */
+const RENEW_AFTER = 2 / 3;
+
+/**
+ * Longest delay setTimeout accepts
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Key/value data of a secret read response
+ */
+function secretData(body: Record<string, unknown>, version: 1 | 2): Record<string, unknown> {
+  const data = (body.data ?? {}) as Record<string, unknown>;
+  return (version === 2 ? data.data ?? {} : data) as Record<string, unknown>;
+}
+
+/**
+ * Build the mapped config object from a secret's key/value data
+ */
+function mapSecret(
+  secret: Record<string, unknown>,
+  options: ParsedVaultSourceOptions
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  if (options.keys) {
+    for (const [key, configPath] of Object.entries(options.keys)) {
+      if (key in secret) {
+        setByPath(result, configPath, secret[key]);
+      }
+    }
+    return result;
+  }
+
+  if (!options.at) return { ...secret };
+
+  setByPath(result, options.at, { ...secret });
+  return result;
+}
+
+/**
+ * Create a plugin that reads secrets from a HashiCorp Vault KV secrets engine (v1 or v2).
+ *
+ * In watch mode, renewable leases are renewed before they expire. When a lease
+ * cannot be renewed, or a non-renewable lease expires, the config is reloaded.
+ *
+ * Also resolves `ref+vault://<mount>/<path>#<key>` references (`?version=1` for KV v1).
+ *
+ * @example
+ * ```typescript
+ * const config = await defineConfig({
+ *   schema,
+ *   plugins: [createVaultPlugin({ auth: { type: 'approle', roleId, secretId } })],
+ *   sources: [
+ *     { type: 'plugin', name: 'vault', options: { path: 'myapp/db', keys: { password: 'database.password' } } },
+ *   ],
+ * });
+ * ```
+ */
+export function createVaultPlugin(pluginOptions: VaultPluginOptions = {}): Plugin<ParsedVaultSourceOptions> {
+  const { name = 'vault', timeout = 10000 } = pluginOptions;
+
+  let clientToken: { value: string; expiresAt?: number } | undefined;
+  /** Lease of each secret, by `mount/path` */
+  const leases = new Map<string, VaultLease>();
+  /** Watches to reschedule when a secret's lease changes, by `mount/path` */
+  const rescheduleWatches = new Map<string, Set<() => void>>();
+
+  const getAddress = (context: LoaderContext): string => {
+    const address = pluginOptions.address ?? context.env.VAULT_ADDR;
+    if (!address) {
+      throw new ConfigFetchError('vault', 'No Vault address: set `address` or VAULT_ADDR');
+    }
+    return address.replace(/\/+$/, '');
+  };
+
+  /**
+   * Send a request to the Vault HTTP API and return the parsed response body
+   */
+  const request = async (
+    context: PluginLoadContext,
+    method: string,
+    path: string,
+    options: { token?: string; body?: unknown } = {}
+  ): Promise<Record<string, unknown>> => {
+    const url = `${getAddress(context)}/v1/${path}`;
+    const headers: Record<string, string> = { accept: 'application/json' };
+    const namespace = pluginOptions.namespace ?? context.env.VAULT_NAMESPACE;
+
+    if (options.token) headers['x-vault-token'] = options.token;
+    if (namespace) headers['x-vault-namespace'] = namespace;
+    if (options.body !== undefined) headers['content-type'] = 'application/json';
+
+    const response = await fetchWithTimeout(url, {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : null,
+      timeout,
+      signal: context.signal,
+    });
+
+    const body = await readJson(response, url);
+
+    if (!response.ok) {
+      const errors = Array.isArray(body.errors) && body.errors.length > 0
+        ? body.errors.join(', ')
+        : `HTTP ${response.status}`;
+      throw new ConfigFetchError(url, errors, response.status);
+    }
+
+    return body;
+  };
+
+  /**
+   * Get a client token, logging in with AppRole when needed
+   */
+  const getToken = async (context: PluginLoadContext): Promise<string> => {
+    const auth = pluginOptions.auth;
+
+    if (!auth || auth.type === 'token') {
+      const token = auth?.token ?? context.env.VAULT_TOKEN;
+      if (!token) {
+        throw new ConfigFetchError(getAddress(context), 'No Vault token: set `auth` or VAULT_TOKEN');
+      }
+      return token;
+    }
+
+    // Log in again shortly before the token expires
+    if (clientToken && (clientToken.expiresAt === undefined || Date.now() < clientToken.expiresAt - 5000)) {
+      return clientToken.value;
+    }
+
+    const body = await request(context, 'POST', `auth/${auth.mount ?? 'approle'}/login`, {
+      body: { role_id: auth.roleId, secret_id: auth.secretId },
+    });
+    const login = body.auth as { client_token: string; lease_duration?: number };
+
+    clientToken = { value: login.client_token };
+    if (login.lease_duration) {
+      clientToken.expiresAt = Date.now() + login.lease_duration * 1000;
+    }
+    return clientToken.value;
+  };
+
+  /**
+   * Read a secret, logging in again once if an AppRole token was revoked
+   */
+  const readSecret = async (
+    options: ParsedVaultSourceOptions,
+    context: PluginLoadContext
+  ): Promise<Record<string, unknown>> => {
+    const path = options.version === 2
+      ? `${options.mount}/data/${options.path}`
+      : `${options.mount}/${options.path}`;
+
+    try {
+      return await request(context, 'GET', path, { token: await getToken(context) });
+    } catch (error) {
+      if (!(error instanceof ConfigFetchError) || error.status !== 403 || !clientToken) throw error;
+      clientToken = undefined;
+      return request(context, 'GET', path, { token: await getToken(context) });
+    }
+  };
+
+  /**
+   * Renew a lease, returning the renewed lease
+   */
+  const renewLease = async (lease: VaultLease, context: LoaderContext): Promise<VaultLease> => {
+    const body = await request(context, 'PUT', 'sys/leases/renew', {
+      token: await getToken(context),
+      body: { lease_id: lease.id, increment: lease.duration },
+    });
+
+    return {
+      id: typeof body.lease_id === 'string' && body.lease_id ? body.lease_id : lease.id,
+      duration: Number(body.lease_duration ?? 0),
+      renewable: body.renewable === true,
+    };
+  };
+
+  return definePlugin<ParsedVaultSourceOptions>({
+    name,
+    optionsSchema: vaultSourceSchema,
+
+    async load(options, context) {
+      const body = await readSecret(options, context);
+      const secret = secretData(body, options.version);
+
+      const key = `${options.mount}/${options.path}`;
+      const duration = Number(body.lease_duration ?? 0);
+      if (duration > 0) {
+        leases.set(key, {
+          id: typeof body.lease_id === 'string' ? body.lease_id : '',
+          duration,
+          renewable: body.renewable === true,
+        });
+      } else {
+        leases.delete(key);
+      }
+      rescheduleWatches.get(key)?.forEach((reschedule) => reschedule());
+
+      return mapSecret(secret, options);
+    },
+
+    watch(options, context, notify) {
+      const key = `${options.mount}/${options.path}`;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const expire = async (lease: VaultLease): Promise<void> => {
+        if (!lease.id || !lease.renewable) {
+          notify();
+          return;
+        }
+
+        try {
+          const renewed = await renewLease(lease, context);
+          leases.set(key, renewed);
+
+          // Vault caps renewals at the lease's max TTL; fetch a new secret before it runs out
+          if (renewed.duration < lease.duration) {
+            notify();
+          } else {
+            schedule();
+          }
+        } catch {
+          notify();
+        }
+      };
+
+      const schedule = (): void => {
+        clearTimeout(timer);
+        const lease = leases.get(key);
+        if (!lease) return;
+
+        const seconds = lease.id && lease.renewable ? lease.duration * RENEW_AFTER : lease.duration;
+        timer = setTimeout(() => void expire(lease), Math.min(seconds * 1000, MAX_TIMER_DELAY));
+      };
+
+      let watches = rescheduleWatches.get(key);
+      if (!watches) {
+        watches = new Set();
+        rescheduleWatches.set(key, watches);
+      }
+      watches.add(schedule);
+      schedule();
+
+      return () => {
+        clearTimeout(timer);
+        watches.delete(schedule);
+      };
+    },
+
+    async resolve(references, context) {
+      // Read each secret once, however many of its keys are referenced
+      const secrets = new Map<string, Promise<Record<string, unknown>>>();
+
+      return Promise.all(references.map(async (reference) => {
+        const [mount, ...rest] = reference.location.split('/').filter(Boolean);
+        const path = rest.join('/');
+        if (!mount || !path) {
+          throw new Error(`Expected ref+${name}://<mount>/<path>#<key>, got ${reference.uri}`);
+        }
+
+        const { version: versionParam = '2' } = reference.params;
+        if (versionParam !== '1' && versionParam !== '2') {
+          throw new Error(`Unsupported KV version "${versionParam}" in ${reference.uri}`);
+        }
+        const version = versionParam === '1' ? 1 : 2;
+
+        const id = `${version}:${mount}/${path}`;
+        let secret = secrets.get(id);
+        if (!secret) {
+          secret = readSecret({ mount, path, version }, context).then((body) => secretData(body, version));
+          secrets.set(id, secret);
+        }
+
+        const data = await secret;
+        if (reference.key === undefined) return data;
+        if (!(reference.key in data)) {
+          throw new Error(`Key "${reference.key}" not found in secret ${mount}/${path}`);
+        }
+        return data[reference.key];
+      }));
+    },
+
+    dispose() {
+      clientToken = undefined;
+      leases.clear();
+    },
+  });
+}
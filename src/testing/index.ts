@@ -0,0 +1,2 @@
+export { startFakeVault } from './vault.js';
+export type { FakeVault } from './vault.js';
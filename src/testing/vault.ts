@@ -0,0 +1,185 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Secret stored in the fake Vault
+ */
+interface FakeSecret {
+  data: Record<string, unknown>;
+  version: number;
+  /** Lease returned with the secret (KV v1 and dynamic secrets) */
+  lease?: { duration: number; renewable: boolean; maxTtl?: number };
+}
+
+interface FakeLease {
+  duration: number;
+  renewable: boolean;
+  /** Seconds of lease time left before the max TTL, if limited */
+  remaining?: number;
+}
+
+export interface FakeVault {
+  url: string;
+  /** Root token accepted for every request */
+  token: string;
+  /** Requests received, as `METHOD /path` */
+  requests: string[];
+  setSecret(mount: string, path: string, data: Record<string, unknown>, lease?: FakeSecret['lease']): void;
+  /** Register an AppRole; login returns tokens valid for `ttl` seconds */
+  addAppRole(roleId: string, secretId: string, ttl?: number): void;
+  /** Revoke every token issued by AppRole logins */
+  revokeTokens(): void;
+  /** Make lease renewals fail */
+  failRenewals(fail: boolean): void;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process stand-in for the parts of the Vault HTTP API the plugin uses:
+ * KV v1 and v2 reads, AppRole login and lease renewal.
+ */
+export async function startFakeVault(
+  options: { mounts?: Record<string, 1 | 2> } = {}
+): Promise<FakeVault> {
+  const mounts = options.mounts ?? { secret: 2, kv: 1 };
+  const token = `root-${randomUUID()}`;
+  const tokens = new Set([token]);
+  const issuedTokens = new Set<string>();
+  const secrets = new Map<string, FakeSecret>();
+  const appRoles = new Map<string, { secretId: string; ttl: number }>();
+  const leases = new Map<string, FakeLease>();
+  const requests: string[] = [];
+  let renewalsFail = false;
+
+  const send = (res: ServerResponse, status: number, body: unknown): void => {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const readBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+    let text = '';
+    for await (const chunk of req) text += String(chunk);
+    return text ? (JSON.parse(text) as Record<string, unknown>) : {};
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const path = new URL(req.url ?? '/', 'http://vault').pathname.replace(/^\/v1\//, '');
+    requests.push(`${req.method} /v1/${path}`);
+
+    // AppRole login
+    const login = /^auth\/([^/]+)\/login$/.exec(path);
+    if (login && req.method === 'POST') {
+      const { role_id: roleId, secret_id: secretId } = await readBody(req);
+      const role = appRoles.get(String(roleId));
+      if (!role || role.secretId !== secretId) {
+        send(res, 400, { errors: ['invalid role or secret ID'] });
+        return;
+      }
+      const clientToken = `approle-${randomUUID()}`;
+      tokens.add(clientToken);
+      issuedTokens.add(clientToken);
+      send(res, 200, { auth: { client_token: clientToken, lease_duration: role.ttl, renewable: true } });
+      return;
+    }
+
+    if (!tokens.has(String(req.headers['x-vault-token']))) {
+      send(res, 403, { errors: ['permission denied'] });
+      return;
+    }
+
+    if (path === 'sys/leases/renew' && req.method === 'PUT') {
+      const { lease_id: leaseId, increment } = await readBody(req);
+      const lease = leases.get(String(leaseId));
+      if (renewalsFail || !lease?.renewable) {
+        send(res, 400, { errors: ['lease not found or lease is not renewable'] });
+        return;
+      }
+      let duration = Number(increment ?? lease.duration);
+      if (lease.remaining !== undefined) {
+        duration = Math.min(duration, lease.remaining);
+        lease.remaining -= duration;
+      }
+      send(res, 200, { lease_id: leaseId, lease_duration: duration, renewable: true });
+      return;
+    }
+
+    const [mount = '', ...rest] = path.split('/');
+    const version = mounts[mount];
+    if (!version || req.method !== 'GET') {
+      send(res, 404, { errors: [] });
+      return;
+    }
+
+    if (version === 2) {
+      if (rest[0] !== 'data') {
+        send(res, 404, { errors: [] });
+        return;
+      }
+      const secret = secrets.get(`${mount}/${rest.slice(1).join('/')}`);
+      if (!secret) {
+        send(res, 404, { errors: [] });
+        return;
+      }
+      send(res, 200, {
+        lease_id: '',
+        lease_duration: 0,
+        renewable: false,
+        data: { data: secret.data, metadata: { version: secret.version } },
+      });
+      return;
+    }
+
+    const secret = secrets.get(`${mount}/${rest.join('/')}`);
+    if (!secret) {
+      send(res, 404, { errors: [] });
+      return;
+    }
+
+    let leaseId = '';
+    if (secret.lease?.renewable) {
+      leaseId = `${mount}/${rest.join('/')}/${randomUUID()}`;
+      const lease: FakeLease = { duration: secret.lease.duration, renewable: true };
+      if (secret.lease.maxTtl !== undefined) lease.remaining = secret.lease.maxTtl - secret.lease.duration;
+      leases.set(leaseId, lease);
+    }
+
+    send(res, 200, {
+      lease_id: leaseId,
+      lease_duration: secret.lease?.duration ?? 2764800,
+      renewable: secret.lease?.renewable ?? false,
+      data: secret.data,
+    });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => send(res, 500, { errors: [String(error)] }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    token,
+    requests,
+    setSecret(mount, path, data, lease) {
+      const key = `${mount}/${path}`;
+      const version = (secrets.get(key)?.version ?? 0) + 1;
+      secrets.set(key, lease ? { data, version, lease } : { data, version });
+    },
+    addAppRole(roleId, secretId, ttl = 3600) {
+      appRoles.set(roleId, { secretId, ttl });
+    },
+    revokeTokens() {
+      for (const issued of issuedTokens) tokens.delete(issued);
+      issuedTokens.clear();
+    },
+    failRenewals(fail) {
+      renewalsFail = fail;
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
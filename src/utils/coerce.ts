@@ -0,0 +1,132 @@
+import type { z } from 'zod';
+import { getDef, getTypeName, unwrap } from './schema-introspect.js';
+
+/**
+ * Attempt to coerce string values to their likely types.
+ * Used when no schema describes the value.
+ */
+export function guessValue(value: string): unknown {
+  // Boolean
+  if (value.toLowerCase() === 'true') return true;
+  if (value.toLowerCase() === 'false') return false;
+
+  // Number
+  if (/^-?\d+$/.test(value)) {
+    const num = parseInt(value, 10);
+    if (!isNaN(num) && num.toString() === value) return num;
+  }
+  if (/^-?\d*\.\d+$/.test(value)) {
+    const num = parseFloat(value);
+    if (!isNaN(num)) return num;
+  }
+
+  // JSON array or object
+  if ((value.startsWith('[') && value.endsWith(']')) ||
+      (value.startsWith('{') && value.endsWith('}'))) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Keep as string
+    }
+  }
+
+  return value;
+}
+
+const TRUE_VALUES = new Set(['true', '1', 'yes', 'on']);
+const FALSE_VALUES = new Set(['false', '0', 'no', 'off']);
+
+/**
+ * Parse a JSON string, returning the original string if it is not valid JSON
+ */
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Coerce a string to the type declared by a Zod schema.
+ * Values that cannot be coerced are returned unchanged so that schema
+ * validation reports them with a proper error message.
+ * Falls back to guessing when no schema is given.
+ */
+export function coerceToSchema(value: string, schema: z.ZodType | undefined): unknown {
+  if (!schema) return guessValue(value);
+
+  const { schema: inner, nullable } = unwrap(schema);
+  const def = getDef(inner);
+
+  if (nullable && value === 'null') return null;
+
+  switch (getTypeName(inner)) {
+    case 'string':
+      return value;
+
+    case 'number': {
+      const trimmed = value.trim();
+      if (trimmed === '') return value;
+      const num = Number(trimmed);
+      return isNaN(num) ? value : num;
+    }
+
+    case 'bigint': {
+      try {
+        return BigInt(value.trim());
+      } catch {
+        return value;
+      }
+    }
+
+    case 'boolean': {
+      const normalized = value.trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return true;
+      if (FALSE_VALUES.has(normalized)) return false;
+      return value;
+    }
+
+    case 'enum':
+    case 'nativeenum': {
+      // Zod 4 uses 'entries', Zod 3 uses 'values'
+      const entries = (def.entries ?? def.values) as Record<string, unknown> | unknown[] | undefined;
+      const values = Array.isArray(entries) ? entries : Object.values(entries ?? {});
+      const match = values.find((v) => String(v) === value);
+      return match ?? value;
+    }
+
+    case 'literal': {
+      // Zod 4 uses 'values', Zod 3 uses 'value'
+      const literals = Array.isArray(def.values) ? def.values as unknown[] : [def.value];
+      const match = literals.find((v) => String(v) === value);
+      return match ?? value;
+    }
+
+    case 'date': {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? value : date;
+    }
+
+    case 'array':
+    case 'set': {
+      if (value.trim().startsWith('[')) {
+        return parseJson(value);
+      }
+      // Zod 4 uses 'element', Zod 3 uses 'type' (array) or 'valueType' (set)
+      const element = (def.element ?? def.valueType ?? (typeof def.type === 'object' ? def.type : undefined)) as
+        | z.ZodType
+        | undefined;
+      const items = value === '' ? [] : value.split(',').map((item) => coerceToSchema(item.trim(), element));
+      return getTypeName(inner) === 'set' ? new Set(items) : items;
+    }
+
+    case 'object':
+    case 'record':
+    case 'tuple':
+      return parseJson(value);
+
+    default:
+      return guessValue(value);
+  }
+}
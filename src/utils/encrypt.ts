@@ -1,4 +1,5 @@
 import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { isPlainObject } from './deep-merge.js';
 
 /**
  * Encryption algorithm and parameters
@@ -319,7 +320,7 @@ function processDecryptObject(obj: unknown, key: string): unknown {
     return obj.map((item) => processDecryptObject(item, key));
   }
 
-  if (typeof obj === 'object') {
+  if (isPlainObject(obj)) {
     const result: Record<string, unknown> = {};
 
     for (const [k, value] of Object.entries(obj)) {
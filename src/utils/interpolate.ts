@@ -1,9 +1,10 @@
-import { getByPath } from './deep-merge.js';
+import { getByPath, isPlainObject } from './deep-merge.js';
+import { ConfigValidationError } from '../errors/validation.js';
 
 /**
- * Pattern to match ${VAR} or ${path.to.value} syntax
+ * Shell-style operator in `${VAR:-default}` and `${VAR:?message}`
  */
-const INTERPOLATION_PATTERN = /\$\{([^}]+)\}/g;
+const OPERATOR_PATTERN = /:[-?]/;
 
 /**
  * Options for interpolation
@@ -13,6 +14,8 @@ export interface InterpolateOptions {
   env?: Record<string, string | undefined>;
   /** Maximum recursion depth (default: 10) */
   maxDepth?: number;
+  /** Throw MissingVariableError for unresolved references instead of replacing them with '' (default: false) */
+  strict?: boolean;
 }
 
 /**
@@ -32,12 +35,74 @@ export class CircularReferenceError extends Error {
   }
 }
 
+/**
+ * Error thrown when a required variable is missing:
+ * `${VAR:?message}` references, or any unresolved reference in strict mode.
+ * A ConfigValidationError, so loading reports it like an invalid value.
+ */
+export class MissingVariableError extends ConfigValidationError {
+  /** The variable or config path that could not be resolved */
+  public readonly variable: string;
+  /** Config path of the value referencing it */
+  public readonly path: string;
+
+  constructor(variable: string, path: string, reason?: string) {
+    const message = `Missing variable ${variable} referenced at ${path}${reason ? `: ${reason}` : ''}`;
+    super([{ path, message }]);
+    this.message = message;
+    this.name = 'MissingVariableError';
+    this.variable = variable;
+    this.path = path;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, MissingVariableError);
+    }
+  }
+}
+
+/**
+ * Replace each `${...}` expression, or escaped `$${...}`, in a string.
+ * Braces are matched by depth, so expressions can contain `${...}` and balanced `{...}`.
+ * Empty and unterminated expressions are kept as they are.
+ */
+function replaceExpressions(
+  value: string,
+  replacer: (match: string, expression: string) => string
+): string {
+  let result = '';
+  let cursor = 0;
+  let start = value.indexOf('${');
+
+  while (start >= 0) {
+    let depth = 1;
+    let end = start + 2;
+    for (; end < value.length && depth > 0; end++) {
+      if (value[end] === '{') depth++;
+      else if (value[end] === '}') depth--;
+    }
+    if (depth > 0) break;
+
+    const expression = value.slice(start + 2, end - 1);
+    if (expression) {
+      const matchStart = start > cursor && value[start - 1] === '$' ? start - 1 : start;
+      result += value.slice(cursor, matchStart) + replacer(value.slice(matchStart, end), expression);
+      cursor = end;
+    }
+    start = value.indexOf('${', end);
+  }
+
+  return result + value.slice(cursor);
+}
+
 /**
  * Interpolate variables in a string value
  * Supports:
  * - ${ENV_VAR} - environment variable
  * - ${config.path} - reference to config value (if starts with lowercase and contains dot)
  * - ${path} - tries env first, then config
+ * - ${VAR:-default} - default when unset or empty; the default is interpolated too
+ * - ${VAR:?message} - MissingVariableError when unset or empty
+ * - $${literal} - a literal ${literal}
  */
 function interpolateString(
   value: string,
@@ -45,14 +110,24 @@ function interpolateString(
   env: Record<string, string | undefined>,
   visiting: Set<string>,
   depth: number,
-  maxDepth: number
+  maxDepth: number,
+  strict: boolean,
+  path: string
 ): string {
   if (depth > maxDepth) {
     throw new Error(`Maximum interpolation depth (${maxDepth}) exceeded`);
   }
 
-  return value.replace(INTERPOLATION_PATTERN, (_match, key: string) => {
-    const trimmedKey = key.trim();
+  return replaceExpressions(value, (match, expression) => {
+    // Escaped: $${literal} -> ${literal}
+    if (match.startsWith('$$')) {
+      return match.slice(1);
+    }
+
+    const operatorIndex = expression.search(OPERATOR_PATTERN);
+    const trimmedKey = (operatorIndex < 0 ? expression : expression.slice(0, operatorIndex)).trim();
+    const operator = operatorIndex < 0 ? undefined : expression[operatorIndex + 1];
+    const operand = operatorIndex < 0 ? '' : expression.slice(operatorIndex + 2);
 
     // Check for circular reference
     if (visiting.has(trimmedKey)) {
@@ -60,6 +135,8 @@ function interpolateString(
     }
 
     let resolved: unknown;
+    // Where a resolved value containing variables was written, for errors
+    let resolvedPath = path;
 
     // Try environment variable first (uppercase or has underscore)
     if (trimmedKey === trimmedKey.toUpperCase() || trimmedKey.includes('_')) {
@@ -69,20 +146,32 @@ function interpolateString(
     // If not found in env, try config path (contains dot or not all uppercase)
     if (resolved === undefined && trimmedKey.includes('.')) {
       resolved = getByPath(config, trimmedKey);
+      resolvedPath = trimmedKey;
     }
 
     // Fallback: try both
     if (resolved === undefined) {
       // Try env first
       resolved = env[trimmedKey];
+      resolvedPath = path;
       // Then try config
       if (resolved === undefined) {
         resolved = getByPath(config, trimmedKey);
+        resolvedPath = trimmedKey;
       }
     }
 
-    // If still undefined, return empty string or keep the original
-    if (resolved === undefined) {
+    // Shell-style operators also treat an empty value as missing
+    if (resolved === undefined || (operator !== undefined && resolved === '')) {
+      if (operator === '-') {
+        return interpolateString(operand, config, env, visiting, depth + 1, maxDepth, strict, path);
+      }
+      if (operator === '?') {
+        throw new MissingVariableError(trimmedKey, path, operand.trim() || undefined);
+      }
+      if (strict) {
+        throw new MissingVariableError(trimmedKey, path);
+      }
       return '';
     }
 
@@ -94,7 +183,16 @@ function interpolateString(
     // Recursively interpolate if the resolved value contains variables
     if (stringValue.includes('${')) {
       visiting.add(trimmedKey);
-      const result = interpolateString(stringValue, config, env, visiting, depth + 1, maxDepth);
+      const result = interpolateString(
+        stringValue,
+        config,
+        env,
+        visiting,
+        depth + 1,
+        maxDepth,
+        strict,
+        resolvedPath
+      );
       visiting.delete(trimmedKey);
       return result;
     }
@@ -113,6 +211,7 @@ function interpolateObject(
   visiting: Set<string>,
   depth: number,
   maxDepth: number,
+  strict: boolean,
   currentPath: string = ''
 ): Record<string, unknown> {
   const result: Record<string, unknown> = {};
@@ -123,12 +222,12 @@ function interpolateObject(
     if (typeof value === 'string') {
       if (value.includes('${')) {
         visiting.add(path);
-        result[key] = interpolateString(value, rootConfig, env, visiting, depth, maxDepth);
+        result[key] = interpolateString(value, rootConfig, env, visiting, depth, maxDepth, strict, path);
         visiting.delete(path);
       } else {
         result[key] = value;
       }
-    } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    } else if (isPlainObject(value)) {
       result[key] = interpolateObject(
         value as Record<string, unknown>,
         rootConfig,
@@ -136,6 +235,7 @@ function interpolateObject(
         visiting,
         depth,
         maxDepth,
+        strict,
         path
       );
     } else if (Array.isArray(value)) {
@@ -143,10 +243,19 @@ function interpolateObject(
         if (typeof item === 'string' && item.includes('${')) {
           const itemPath = `${path}[${index}]`;
           visiting.add(itemPath);
-          const interpolated = interpolateString(item, rootConfig, env, visiting, depth, maxDepth);
+          const interpolated = interpolateString(
+            item,
+            rootConfig,
+            env,
+            visiting,
+            depth,
+            maxDepth,
+            strict,
+            itemPath
+          );
           visiting.delete(itemPath);
           return interpolated;
-        } else if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+        } else if (isPlainObject(item)) {
           return interpolateObject(
             item as Record<string, unknown>,
             rootConfig,
@@ -154,6 +263,7 @@ function interpolateObject(
             visiting,
             depth,
             maxDepth,
+            strict,
             `${path}[${index}]`
           );
         }
@@ -173,6 +283,10 @@ function interpolateObject(
  * Supports:
  * - `${ENV_VAR}` - environment variable (uppercase)
  * - `${config.path}` - reference to another config value
+ * - `${VAR:-default}` - default when the variable is unset or empty; defaults can
+ *   reference variables (`${A:-${B}}`) and contain balanced braces
+ * - `${VAR:?message}` - throws MissingVariableError naming the config path when unset or empty
+ * - `$${literal}` - escape, producing a literal `${literal}`
  * - Recursive resolution with cycle detection
  *
  * @example
@@ -196,13 +310,14 @@ export function interpolate<T extends Record<string, unknown>>(
 ): T {
   const env = options.env ?? {};
   const maxDepth = options.maxDepth ?? 10;
+  const strict = options.strict ?? false;
 
-  return interpolateObject(config, config, env, new Set(), 0, maxDepth) as T;
+  return interpolateObject(config, config, env, new Set(), 0, maxDepth, strict) as T;
 }
 
 /**
  * Check if a string contains interpolation syntax
  */
 export function hasInterpolation(value: string): boolean {
-  return /\$\{[^}]+\}/.test(value);
+  return /(?<!\$)\$\{[^}]+\}/.test(value);
 }
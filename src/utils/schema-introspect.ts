@@ -0,0 +1,165 @@
+import type { z } from 'zod';
+import type { SchemaFieldMeta } from '../core/types.js';
+
+/**
+ * Get the normalized type name from a Zod schema (works with both Zod 3 and Zod 4)
+ * ZodObject / object -> 'object'
+ */
+export function getTypeName(schema: z.ZodType): string {
+  const def = getDef(schema);
+  // Zod 4 uses 'type', Zod 3 uses 'typeName'
+  const typeName = typeof def.type === 'string'
+    ? def.type
+    : typeof def.typeName === 'string' ? def.typeName : '';
+  return typeName.toLowerCase().replace(/^zod/, '');
+}
+
+/**
+ * Get the internal definition of a Zod schema
+ */
+export function getDef(schema: z.ZodType): Record<string, unknown> {
+  return ('_def' in schema ? schema._def : {}) as unknown as Record<string, unknown>;
+}
+
+/**
+ * Strip wrapper types (optional, nullable, default, pipes, effects) from a schema
+ */
+export function unwrap(schema: z.ZodType): { schema: z.ZodType; nullable: boolean } {
+  let current = schema;
+  let nullable = false;
+
+  for (;;) {
+    const def = getDef(current);
+
+    switch (getTypeName(current)) {
+      case 'nullable':
+        nullable = true;
+        current = def.innerType as z.ZodType;
+        continue;
+      case 'optional':
+      case 'default':
+      case 'prefault':
+      case 'catch':
+      case 'readonly':
+      case 'nonoptional':
+        current = def.innerType as z.ZodType;
+        continue;
+      case 'pipe':
+        // Zod 4: coerce according to the input side of the pipe
+        current = def.in as z.ZodType;
+        continue;
+      case 'effects':
+        // Zod 3: refinements and transforms wrap the inner schema
+        current = def.schema as z.ZodType;
+        continue;
+      default:
+        return { schema: current, nullable };
+    }
+  }
+}
+
+/**
+ * Get the shape of an object schema
+ */
+export function getShape(schema: z.ZodType): Record<string, z.ZodType> | undefined {
+  const def = getDef(schema);
+  // shape can be a function (Zod 3) or object (Zod 4)
+  const shape = def.shape as (() => Record<string, z.ZodType>) | Record<string, z.ZodType> | undefined;
+  return typeof shape === 'function' ? shape() : shape;
+}
+
+/**
+ * Find the schema describing a dot-notation path.
+ * Returns undefined when the schema does not describe the path.
+ */
+export function getSchemaAtPath(schema: z.ZodType, path: string): z.ZodType | undefined {
+  let current: z.ZodType | undefined = schema;
+
+  for (const part of path.split('.')) {
+    if (!current) return undefined;
+
+    const inner: z.ZodType = unwrap(current).schema;
+    if (getTypeName(inner) !== 'object') return undefined;
+
+    current = getShape(inner)?.[part];
+  }
+
+  return current;
+}
+
+/**
+ * Read metadata attached with `.meta()` (Zod 4), including metadata on
+ * wrapper types. Outer wrappers take precedence over inner types:
+ * `z.string().meta({ env: 'A' }).optional()` has `{ env: 'A' }`.
+ */
+export function getFieldMeta(schema: z.ZodType): SchemaFieldMeta {
+  const layers: SchemaFieldMeta[] = [];
+  let current: z.ZodType | undefined = schema;
+
+  while (current) {
+    const meta = readMeta(current);
+    if (meta) layers.unshift(meta);
+
+    const inner = unwrap(current).schema;
+    if (inner === current) break;
+
+    // Step one wrapper level at a time so metadata on each level is seen
+    const def = getDef(current);
+    current = (def.innerType ?? def.in ?? def.schema) as z.ZodType | undefined;
+  }
+
+  return Object.assign({}, ...layers) as SchemaFieldMeta;
+}
+
+/**
+ * Read metadata from a single schema level
+ */
+function readMeta(schema: z.ZodType): SchemaFieldMeta | undefined {
+  const withMeta = schema as unknown as { meta?: () => unknown };
+  if (typeof withMeta.meta !== 'function') return undefined;
+
+  const meta = withMeta.meta();
+  return meta && typeof meta === 'object' ? meta as SchemaFieldMeta : undefined;
+}
+
+/**
+ * Get the env var names declared for a field, in priority order
+ */
+export function getEnvNames(meta: SchemaFieldMeta): string[] {
+  if (meta.env === undefined) return [];
+  return Array.isArray(meta.env) ? meta.env : [meta.env];
+}
+
+/**
+ * Collect every field described by an object schema, including nested objects,
+ * in schema order
+ */
+export function collectFields(
+  schema: z.ZodType,
+  prefix: string = ''
+): Array<{ path: string; schema: z.ZodType }> {
+  const fields: Array<{ path: string; schema: z.ZodType }> = [];
+  const inner = unwrap(schema).schema;
+
+  if (getTypeName(inner) !== 'object') return fields;
+
+  for (const [key, value] of Object.entries(getShape(inner) ?? {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    fields.push({ path, schema: value });
+    fields.push(...collectFields(value, path));
+  }
+
+  return fields;
+}
+
+/**
+ * Collect explicit env var mappings declared in a schema.
+ * Returns one entry per field with `env` metadata, in schema order.
+ */
+export function collectEnvMappings(
+  schema: z.ZodType
+): Array<{ path: string; env: string[]; schema: z.ZodType }> {
+  return collectFields(schema)
+    .map((field) => ({ ...field, env: getEnvNames(getFieldMeta(field.schema)) }))
+    .filter((field) => field.env.length > 0);
+}
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import {
+  defineConfig,
+  createAwsSecretsPlugin,
+  createSsmPlugin,
+  ConfigFetchError,
+  ConfigParseError,
+} from '../src/index.js';
+import { signAwsRequest } from '../src/plugins/aws.js';
+import { startFakeAws, type FakeAws } from './fakes/aws.js';
+
+let aws: FakeAws;
+
+beforeEach(async () => {
+  aws = await startFakeAws();
+});
+
+afterEach(async () => {
+  await aws.close();
+});
+
+function pluginOptions() {
+  return { endpoint: aws.url, region: aws.region, credentials: aws.credentials };
+}
+
+describe('signAwsRequest', () => {
+  it('matches the AWS Signature Version 4 example', () => {
+    // GET ListUsers example from the AWS General Reference
+    const headers = signAwsRequest(
+      {
+        method: 'GET',
+        url: 'https://iam.amazonaws.com/?Action=ListUsers&Version=2010-05-08',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded; charset=utf-8' },
+        body: '',
+      },
+      {
+        region: 'us-east-1',
+        service: 'iam',
+        credentials: {
+          accessKeyId: 'AKIDEXAMPLE',
+          secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+        },
+        date: new Date('2015-08-30T12:36:00Z'),
+      }
+    );
+
+    expect(headers['x-amz-date']).toBe('20150830T123600Z');
+    expect(headers.authorization).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/iam/aws4_request, ' +
+        'SignedHeaders=content-type;host;x-amz-date, ' +
+        'Signature=5d672d79c15b13162d9279b0855cfba6789a8edb4c82c400e06b5924a6f2b5d7'
+    );
+  });
+
+  it('signs the session token', () => {
+    const headers = signAwsRequest(
+      { method: 'POST', url: 'https://ssm.eu-central-1.amazonaws.com/', headers: {}, body: '{}' },
+      {
+        region: 'eu-central-1',
+        service: 'ssm',
+        credentials: { accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: 'session' },
+      }
+    );
+
+    expect(headers['x-amz-security-token']).toBe('session');
+    expect(headers.authorization).toContain('SignedHeaders=host;x-amz-date;x-amz-security-token,');
+  });
+});
+
+describe('AWS Secrets Manager plugin', () => {
+  const schema = z.object({
+    database: z.object({
+      user: z.string(),
+      password: z.string(),
+    }),
+  });
+
+  it('maps a JSON secret onto a sub-path and reports its ARN', async () => {
+    const arn = aws.setSecret('myapp/prod/db', JSON.stringify({ user: 'app', password: 's3cret' }));
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createAwsSecretsPlugin(pluginOptions())],
+      sources: [{ type: 'plugin', name: 'aws-secrets', options: { secretId: 'myapp/prod/db', at: 'database' } }],
+    }).load();
+
+    expect(config.get('database')).toEqual({ user: 'app', password: 's3cret' });
+    expect(config.getSource('database.password')).toBe(`aws-secrets: ${arn}`);
+    expect(aws.requests).toEqual([
+      { target: 'secretsmanager.GetSecretValue', body: { SecretId: 'myapp/prod/db' } },
+    ]);
+  });
+
+  it('merges a JSON secret at the root', async () => {
+    const arn = aws.setSecret('myapp/prod', JSON.stringify({ database: { user: 'app', password: 'root' } }));
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createAwsSecretsPlugin(pluginOptions())],
+      sources: [{ type: 'plugin', name: 'aws-secrets', options: { secretId: 'myapp/prod' } }],
+    }).load();
+
+    expect(config.get('database.password')).toBe('root');
+    expect(config.getSource('database.user')).toBe(`aws-secrets: ${arn}`);
+  });
+
+  it('places plain-text and binary secrets at a path', async () => {
+    aws.setSecret('api-key', 'plain-text-key');
+    aws.setSecret('cert', '-----BEGIN CERTIFICATE-----', { binary: true });
+
+    const config = await defineConfig({
+      schema: z.object({ apiKey: z.string(), tls: z.object({ cert: z.string() }) }),
+      plugins: [createAwsSecretsPlugin(pluginOptions())],
+      sources: [
+        { type: 'plugin', name: 'aws-secrets', options: { secretId: 'api-key', at: 'apiKey' } },
+        { type: 'plugin', name: 'aws-secrets', options: { secretId: 'cert', at: 'tls.cert' } },
+      ],
+    }).load();
+
+    expect(config.getAll()).toEqual({ apiKey: 'plain-text-key', tls: { cert: '-----BEGIN CERTIFICATE-----' } });
+  });
+
+  it('throws ConfigParseError for a plain-text secret without a path', async () => {
+    aws.setSecret('api-key', 'plain-text-key');
+
+    await expect(
+      defineConfig({
+        schema,
+        plugins: [createAwsSecretsPlugin(pluginOptions())],
+        sources: [{ type: 'plugin', name: 'aws-secrets', options: { secretId: 'api-key' } }],
+      }).load()
+    ).rejects.toThrow(ConfigParseError);
+  });
+
+  it('throws ConfigFetchError with the AWS error type', async () => {
+    const error = await defineConfig({
+      schema,
+      plugins: [createAwsSecretsPlugin(pluginOptions())],
+      sources: [{ type: 'plugin', name: 'aws-secrets', options: { secretId: 'missing' } }],
+    }).load().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigFetchError);
+    expect((error as ConfigFetchError).status).toBe(400);
+    expect((error as ConfigFetchError).message).toContain('ResourceNotFoundException');
+  });
+
+  it('fails requests signed with the wrong key', async () => {
+    aws.setSecret('myapp/prod/db', '{}');
+
+    const plugin = createAwsSecretsPlugin({
+      ...pluginOptions(),
+      credentials: { accessKeyId: aws.credentials.accessKeyId, secretAccessKey: 'wrong' },
+    });
+
+    await expect(
+      defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'aws-secrets', options: { secretId: 'myapp/prod/db' } }],
+      }).load()
+    ).rejects.toThrow('InvalidSignatureException');
+  });
+});
+
+describe('SSM Parameter Store plugin', () => {
+  const schema = z.object({
+    database: z.object({
+      host: z.string(),
+      port: z.coerce.number(),
+      password: z.string(),
+    }),
+    features: z.array(z.string()),
+  });
+
+  beforeEach(() => {
+    aws.setParameter('/myapp/prod/database/host', 'db.internal');
+    aws.setParameter('/myapp/prod/database/port', '5432');
+    aws.setParameter('/myapp/prod/database/password', 'ssm-secret', 'SecureString');
+    aws.setParameter('/myapp/prod/features', 'search,billing', 'StringList');
+    aws.setParameter('/myapp/staging/database/host', 'staging.internal');
+  });
+
+  it('maps a parameter hierarchy onto config paths', async () => {
+    const config = await defineConfig({
+      schema,
+      plugins: [createSsmPlugin(pluginOptions())],
+      sources: [{ type: 'plugin', name: 'aws-ssm', options: { path: '/myapp/prod' } }],
+    }).load();
+
+    expect(config.getAll()).toEqual({
+      database: { host: 'db.internal', port: 5432, password: 'ssm-secret' },
+      features: ['search', 'billing'],
+    });
+    expect(config.getSource('database.host')).toBe('aws-ssm: /myapp/prod/database/host');
+    expect(config.getSource('features')).toBe('aws-ssm: /myapp/prod/features');
+  });
+
+  it('follows pagination', async () => {
+    for (let i = 0; i < 12; i++) {
+      aws.setParameter(`/myapp/prod/extra/key${i}`, String(i));
+    }
+
+    await defineConfig({
+      schema: schema.extend({ extra: z.record(z.string(), z.string()) }),
+      plugins: [createSsmPlugin(pluginOptions())],
+      sources: [{ type: 'plugin', name: 'aws-ssm', options: { path: '/myapp/prod/' } }],
+    }).load();
+
+    expect(aws.requests.map((request) => request.body.NextToken)).toEqual([undefined, '10']);
+    expect(aws.requests[0]!.body).toMatchObject({ Path: '/myapp/prod', Recursive: true, WithDecryption: true });
+  });
+
+  it('places parameters under a path and can skip decryption', async () => {
+    const config = await defineConfig({
+      schema: z.object({ secrets: z.object({ password: z.string() }) }),
+      plugins: [createSsmPlugin(pluginOptions())],
+      sources: [
+        {
+          type: 'plugin',
+          name: 'aws-ssm',
+          options: { path: '/myapp/prod/database', at: 'secrets', withDecryption: false },
+        },
+      ],
+    }).load();
+
+    expect(config.get('secrets.password')).toBe(Buffer.from('ssm-secret').toString('base64'));
+    expect(config.getSource('secrets.password')).toBe('aws-ssm: /myapp/prod/database/password');
+  });
+
+  it('reads region and credentials from the environment', async () => {
+    const plugin = createSsmPlugin({ endpoint: aws.url });
+    const sources = new Map<string, string>();
+
+    const data = await plugin.load(
+      { path: '/myapp/staging', recursive: true, withDecryption: true },
+      {
+        profile: 'default',
+        cwd: process.cwd(),
+        env: {
+          AWS_REGION: aws.region,
+          AWS_ACCESS_KEY_ID: aws.credentials.accessKeyId,
+          AWS_SECRET_ACCESS_KEY: aws.credentials.secretAccessKey,
+        },
+        setSource: (path, source) => sources.set(path, source),
+      }
+    );
+
+    expect(data).toEqual({ database: { host: 'staging.internal' } });
+    expect(sources.get('database.host')).toBe('aws-ssm: /myapp/staging/database/host');
+  });
+});
@@ -1,8 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { z } from 'zod';
-import { defineConfig, ConfigValidationError, encryptValue } from '../src/index.js';
+import {
+  defineConfig,
+  definePlugin,
+  ConfigValidationError,
+  CircularProfileError,
+  ProfileNotFoundError,
+  encryptValue,
+} from '../src/index.js';
 import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
+import type { ConfigEvent } from '../src/index.js';
 
 const testDir = join(process.cwd(), 'tests', 'fixtures');
 
@@ -50,6 +58,38 @@ describe('defineConfig', () => {
     expect(config.isLoaded).toBe(true);
   });
 
+  it('closes the previous Config on reload and on close()', async () => {
+    let disposed = 0;
+    const plugin = definePlugin({
+      name: 'closing',
+      load: async () => ({ value: 'loaded' }),
+      dispose: () => {
+        disposed++;
+      },
+    });
+
+    const container = defineConfig({
+      schema: z.object({ value: z.string() }),
+      plugins: [plugin],
+      sources: [{ type: 'plugin', name: 'closing' }],
+    });
+
+    const first = await container.load();
+    first.watch();
+    const second = await container.reload();
+
+    expect(second).not.toBe(first);
+    expect(first.watching).toBe(false);
+    // The new instance holds the plugin, so it is not disposed yet
+    expect(disposed).toBe(0);
+
+    await container.close();
+    expect(disposed).toBe(1);
+    expect(container.isLoaded).toBe(false);
+    expect(await container.get('value')).toBe('loaded');
+    await container.close();
+  });
+
   it('validates and returns typed config from object source', async () => {
     const schema = z.object({
       server: z.object({
@@ -198,6 +238,224 @@ describe('defineConfig', () => {
     expect(await config.get('apiUrl')).toBe('http://localhost:3000');
   });
 
+  describe('profile inheritance', () => {
+    const schema = z.object({
+      apiUrl: z.string(),
+      debug: z.boolean().default(false),
+      replicas: z.number().default(1),
+      region: z.string().optional(),
+    });
+
+    const profiles = {
+      production: {
+        defaults: { replicas: 3 },
+        sources: [{ type: 'object' as const, data: { apiUrl: 'https://api.example.com', region: 'us' } }],
+      },
+      staging: {
+        extends: 'production',
+        defaults: { debug: true },
+        sources: [{ type: 'object' as const, data: { apiUrl: 'https://staging.example.com' } }],
+      },
+      'staging-eu': {
+        extends: 'staging',
+        sources: [{ type: 'object' as const, data: { region: 'eu' } }],
+      },
+    };
+
+    it('inherits sources and defaults from the parent profile', async () => {
+      const config = defineConfig({ schema, profiles, profile: 'staging' });
+
+      expect(await config.getAll()).toEqual({
+        apiUrl: 'https://staging.example.com',
+        debug: true,
+        replicas: 3,
+        region: 'us',
+      });
+    });
+
+    it('resolves multi-level chains', async () => {
+      const config = defineConfig({ schema, profiles, profile: 'staging-eu' });
+
+      expect(await config.getAll()).toEqual({
+        apiUrl: 'https://staging.example.com',
+        debug: true,
+        replicas: 3,
+        region: 'eu',
+      });
+    });
+
+    it('inherits top-level sources through a root profile without sources', async () => {
+      const config = defineConfig({
+        schema,
+        sources: [{ type: 'object', data: { apiUrl: 'https://base.example.com' } }],
+        profiles: {
+          base: { defaults: { replicas: 2 } },
+          child: { extends: 'base', defaults: { debug: true } },
+        },
+        profile: 'child',
+      });
+
+      expect(await config.getAll()).toEqual({
+        apiUrl: 'https://base.example.com',
+        debug: true,
+        replicas: 2,
+      });
+    });
+
+    it('rejects cycles', async () => {
+      const config = defineConfig({
+        schema,
+        profiles: {
+          a: { extends: 'b' },
+          b: { extends: 'c' },
+          c: { extends: 'a' },
+        },
+        profile: 'a',
+      });
+
+      const error = await config.load().catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(CircularProfileError);
+      expect((error as CircularProfileError).profiles).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    it('rejects unknown parent profiles', async () => {
+      const config = defineConfig({
+        schema,
+        profiles: { staging: { extends: 'prod' } },
+        profile: 'staging',
+      });
+
+      await expect(config.load()).rejects.toThrow(ProfileNotFoundError);
+      await expect(config.load()).rejects.toThrow('Profile "staging" extends unknown profile "prod"');
+    });
+  });
+
+  describe('profile detection', () => {
+    const schema = z.object({ name: z.string() });
+    const profiles = {
+      staging: { sources: [{ type: 'object' as const, data: { name: 'staging' } }] },
+      production: { sources: [{ type: 'object' as const, data: { name: 'production' } }] },
+    };
+    const sources = [{ type: 'object' as const, data: { name: 'base' } }];
+
+    let nodeEnv: string | undefined;
+
+    beforeEach(() => {
+      nodeEnv = process.env.NODE_ENV;
+    });
+
+    afterEach(() => {
+      process.env.NODE_ENV = nodeEnv;
+    });
+
+    it('reads the profile from ZONFIG_PROFILE', async () => {
+      setEnv('ZONFIG_PROFILE', 'staging');
+      process.env.NODE_ENV = 'production';
+
+      const config = defineConfig({ schema, sources, profiles });
+
+      expect(await config.get('name')).toBe('staging');
+    });
+
+    it('falls back to NODE_ENV', async () => {
+      process.env.NODE_ENV = 'production';
+
+      const config = defineConfig({ schema, sources, profiles });
+
+      expect(await config.get('name')).toBe('production');
+    });
+
+    it('prefers an explicit profile', async () => {
+      setEnv('ZONFIG_PROFILE', 'staging');
+
+      const config = defineConfig({ schema, sources, profiles, profile: 'production' });
+
+      expect(await config.get('name')).toBe('production');
+    });
+  });
+
+  describe('multi-dimensional profiles', () => {
+    const schema = z.object({
+      apiUrl: z.string(),
+      replicas: z.number().default(1),
+      region: z.string().default('us'),
+      cdn: z.string().optional(),
+    });
+
+    const dimensions = {
+      env: {
+        prod: {
+          defaults: { replicas: 3 },
+          sources: [{ type: 'object' as const, data: { apiUrl: 'https://api.example.com' } }],
+        },
+        staging: {
+          sources: [{ type: 'object' as const, data: { apiUrl: 'https://staging.example.com' } }],
+        },
+      },
+      region: {
+        eu: {
+          sources: [{ type: 'object' as const, data: { region: 'eu', apiUrl: 'https://eu.api.example.com' } }],
+        },
+        'eu-central': {
+          extends: 'eu',
+          sources: [{ type: 'object' as const, data: { cdn: 'fra' } }],
+        },
+      },
+    };
+
+    it('layers each dimension over the top-level sources in declaration order', async () => {
+      const config = defineConfig({
+        schema,
+        sources: [{ type: 'object', data: { apiUrl: 'http://localhost' } }],
+        dimensions,
+        profile: { env: 'prod', region: 'eu' },
+      });
+
+      expect(await config.getAll()).toEqual({
+        apiUrl: 'https://eu.api.example.com',
+        replicas: 3,
+        region: 'eu',
+      });
+    });
+
+    it('skips dimensions without a value', async () => {
+      const config = defineConfig({ schema, dimensions, profile: { env: 'staging' } });
+
+      expect(await config.getAll()).toEqual({
+        apiUrl: 'https://staging.example.com',
+        replicas: 1,
+        region: 'us',
+      });
+    });
+
+    it('follows extends within a dimension', async () => {
+      const config = defineConfig({ schema, dimensions, profile: { env: 'prod', region: 'eu-central' } });
+
+      expect(await config.get('region')).toBe('eu');
+      expect(await config.get('cdn')).toBe('fra');
+    });
+
+    it('reads dimension values from ZONFIG_PROFILE_<DIMENSION>', async () => {
+      setEnv('ZONFIG_PROFILE_REGION', 'eu');
+
+      const config = defineConfig({ schema, dimensions, profile: { env: 'prod' } });
+
+      expect(await config.get('region')).toBe('eu');
+    });
+
+    it('interpolates dimension values in file paths', async () => {
+      writeFileSync(join(testDir, 'prod.eu.json'), JSON.stringify({ apiUrl: 'https://file.example.com' }));
+
+      const config = defineConfig({
+        schema,
+        sources: [{ type: 'file', path: join(testDir, '${env}.${region}.json') }],
+        profile: { env: 'prod', region: 'eu' },
+      });
+
+      expect(await config.get('apiUrl')).toBe('https://file.example.com');
+    });
+  });
+
   it('getAll returns the full config object', async () => {
     const schema = z.object({
       a: z.string(),
@@ -315,6 +573,117 @@ describe('defineConfig', () => {
     expect(await config.get('apiKey')).toBe('runtime-secret');
   });
 
+  describe('runtime overrides', () => {
+    const schema = z.object({
+      featureFlag: z.boolean().default(false),
+      server: z.object({
+        host: z.string(),
+        port: z.number().min(1),
+      }),
+    });
+
+    function createConfig() {
+      const configFile = join(testDir, 'override.json');
+      writeFileSync(configFile, JSON.stringify({ server: { host: 'localhost', port: 3000 } }));
+      return {
+        configFile,
+        container: defineConfig({ schema, sources: [{ type: 'file', path: configFile }] }),
+      };
+    }
+
+    it('overrides a value and reports it as a runtime override', async () => {
+      const config = await createConfig().container.load();
+
+      config.override('server.port', 8080);
+
+      expect(config.get('server.port')).toBe(8080);
+      expect(config.get('server.host')).toBe('localhost');
+      expect(config.getSource('server.port')).toBe('runtime override');
+    });
+
+    it('emits a change event with the changed paths', async () => {
+      const config = await createConfig().container.load();
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+
+      config.override('featureFlag', true);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'change', changedPaths: ['featureFlag'] });
+    });
+
+    it('rejects values that fail validation', async () => {
+      const config = await createConfig().container.load();
+
+      expect(() => config.override('server.port', 0)).toThrow(ConfigValidationError);
+      expect(config.get('server.port')).toBe(3000);
+    });
+
+    it('removes the override when disposed', async () => {
+      const config = await createConfig().container.load();
+
+      const dispose = config.override('server.port', 8080);
+      dispose();
+      dispose();
+
+      expect(config.get('server.port')).toBe(3000);
+      expect(config.getSource('server.port')).toBe(`file: ${join(testDir, 'override.json')}`);
+    });
+
+    it('restores earlier overrides of the same path', async () => {
+      const config = await createConfig().container.load();
+
+      config.override('server.port', 8080);
+      const dispose = config.override('server.port', 9090);
+      expect(config.get('server.port')).toBe(9090);
+
+      dispose();
+      expect(config.get('server.port')).toBe(8080);
+    });
+
+    it('survives reload', async () => {
+      const { configFile, container } = createConfig();
+      const config = await container.load();
+
+      config.override('server.port', 8080);
+      writeFileSync(configFile, JSON.stringify({ server: { host: 'example.com', port: 4000 } }));
+      await config.reload();
+
+      expect(config.get('server.host')).toBe('example.com');
+      expect(config.get('server.port')).toBe(8080);
+    });
+
+    it('keeps overrides set or removed while a reload is loading', async () => {
+      let release = (): void => {};
+      let slow = false;
+      const plugin = definePlugin({
+        name: 'slow',
+        load: async () => {
+          if (slow) await new Promise<void>((resolve) => { release = resolve; });
+          return { server: { host: 'localhost', port: 3000 } };
+        },
+      });
+      const config = await defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'slow' }],
+      }).load();
+      const removeEarly = config.override('server.port', 8080);
+
+      slow = true;
+      const reloading = config.reload();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      config.override('featureFlag', true);
+      removeEarly();
+      release();
+      await reloading;
+
+      expect(config.get('featureFlag')).toBe(true);
+      expect(config.get('server.port')).toBe(3000);
+      expect(config.getSource('featureFlag')).toBe('runtime override');
+    });
+  });
+
   describe('auto-decryption', () => {
     const TEST_KEY = 'test-auto-decrypt-key-32chars-x';
 
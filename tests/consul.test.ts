@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { defineConfig, createConsulPlugin, ConfigFetchError } from '../src/index.js';
+import type { ConfigEvent, PluginLoadContext } from '../src/index.js';
+import { startFakeConsul, type FakeConsul } from './fakes/consul.js';
+import { waitFor } from './helpers/wait-for.js';
+
+let consul: FakeConsul;
+
+beforeEach(async () => {
+  consul = await startFakeConsul();
+});
+
+afterEach(async () => {
+  await consul.close();
+});
+
+describe('Consul plugin', () => {
+  const schema = z.object({
+    database: z.object({
+      host: z.string(),
+      port: z.coerce.number(),
+    }),
+    debug: z.coerce.boolean().default(false),
+  });
+
+  it('reads a key prefix into nested config', async () => {
+    consul.set('myapp/prod/database/host', 'db.internal');
+    consul.set('myapp/prod/database/port', '5432');
+    consul.set('myapp/staging/database/host', 'ignored');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createConsulPlugin({ address: consul.url })],
+      sources: [{ type: 'plugin', name: 'consul', options: { prefix: 'myapp/prod/' } }],
+    }).load();
+
+    expect(config.get('database')).toEqual({ host: 'db.internal', port: 5432 });
+    expect(config.getSource('database.host')).toBe('consul: myapp/prod/database/host');
+    expect(consul.requests).toEqual(['/v1/kv/myapp/prod/?recurse=true']);
+  });
+
+  it('places keys under `at` and skips folders', async () => {
+    consul.set('db/', '');
+    consul.set('db/host', 'db.internal');
+    consul.set('db/port', '5432');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createConsulPlugin({ address: consul.url })],
+      sources: [{ type: 'plugin', name: 'consul', options: { prefix: 'db/', at: 'database' } }],
+    }).load();
+
+    expect(config.get('database')).toEqual({ host: 'db.internal', port: 5432 });
+  });
+
+  it('returns nothing for an empty prefix', async () => {
+    const context: PluginLoadContext = { profile: 'default', cwd: process.cwd(), env: {} };
+    const plugin = createConsulPlugin({ address: consul.url });
+
+    expect(await plugin.load({ prefix: 'missing/' }, context)).toEqual({});
+  });
+
+  it('reads the address and token from the environment', async () => {
+    await consul.close();
+    consul = await startFakeConsul({ token: 'acl-token' });
+    consul.set('app/key', 'value');
+
+    const context: PluginLoadContext = {
+      profile: 'default',
+      cwd: process.cwd(),
+      env: { CONSUL_HTTP_ADDR: consul.url.replace('http://', ''), CONSUL_HTTP_TOKEN: 'acl-token' },
+    };
+
+    expect(await createConsulPlugin().load({ prefix: 'app/' }, context)).toEqual({ key: 'value' });
+
+    const denied = await createConsulPlugin({ address: consul.url, token: 'wrong' })
+      .load({ prefix: 'app/' }, context)
+      .catch((e: unknown) => e);
+    expect(denied).toBeInstanceOf(ConfigFetchError);
+    expect((denied as ConfigFetchError).status).toBe(403);
+  });
+
+  it('passes the datacenter', async () => {
+    consul.set('app/key', 'value');
+    const context: PluginLoadContext = { profile: 'default', cwd: process.cwd(), env: {} };
+
+    await createConsulPlugin({ address: consul.url, datacenter: 'eu-1' }).load({ prefix: 'app/' }, context);
+
+    expect(consul.requests).toEqual(['/v1/kv/app/?recurse=true&dc=eu-1']);
+  });
+});
+
+describe('Consul plugin watch', () => {
+  const schema = z.object({ feature: z.object({ enabled: z.string() }) });
+
+  async function watchPrefix() {
+    consul.set('flags/feature/enabled', 'false');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createConsulPlugin({ address: consul.url, waitTime: 1000 })],
+      sources: [{ type: 'plugin', name: 'consul', options: { prefix: 'flags/' } }],
+    }).load();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+    config.watch({ debounce: 5 });
+
+    return { config, events };
+  }
+
+  const blockingQueries = () => consul.requests.filter((request) => request.includes('index=')).length;
+
+  it('reloads when a key below the prefix changes', async () => {
+    const { config, events } = await watchPrefix();
+    await waitFor(() => blockingQueries() >= 1);
+
+    consul.set('flags/feature/enabled', 'true');
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    await config.close();
+
+    expect(config.get('feature.enabled')).toBe('true');
+    expect(consul.requests).toContain('/v1/kv/flags/?recurse=true&index=2&wait=1s');
+  });
+
+  it('only reloads after the index went backwards if the data differs', async () => {
+    const { config, events } = await watchPrefix();
+    const reads = () => consul.requests.filter((request) => !request.includes('index=')).length;
+    await waitFor(() => blockingQueries() >= 1);
+
+    consul.resetIndex(1);
+    await waitFor(() => blockingQueries() >= 2);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(reads()).toBe(1);
+
+    consul.set('flags/feature/enabled', 'true');
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    await config.close();
+
+    expect(config.get('feature.enabled')).toBe('true');
+  });
+
+  it('reports errors and keeps watching', async () => {
+    const { config, events } = await watchPrefix();
+    await waitFor(() => blockingQueries() >= 1);
+
+    // The pending query returns after the wait time; the next one fails
+    consul.fail(1);
+    await waitFor(() => events.some((event) => event.type === 'error'));
+
+    consul.set('flags/feature/enabled', 'true');
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    await config.close();
+
+    const error = events.find((event) => event.type === 'error');
+    expect(error).toMatchObject({ source: 'plugin: consul' });
+    expect(config.get('feature.enabled')).toBe('true');
+  });
+
+  it('gives up on blocking queries that never return', async () => {
+    consul.set('flags/feature/enabled', 'false');
+    const config = await defineConfig({
+      schema,
+      plugins: [createConsulPlugin({ address: consul.url, waitTime: 1000, timeout: 50 })],
+      sources: [{ type: 'plugin', name: 'consul', options: { prefix: 'flags/' } }],
+    }).load();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+    consul.stall();
+    config.watch({ debounce: 5 });
+
+    await waitFor(() => events.some((event) => event.type === 'error'));
+    await config.close();
+
+    const error = events.find((event) => event.type === 'error') as { error: Error } | undefined;
+    expect(error?.error).toBeInstanceOf(ConfigFetchError);
+    expect(error?.error.message).toContain('Timed out after 1113ms');
+  });
+});
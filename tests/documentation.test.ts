@@ -38,6 +38,14 @@ describe('Documentation Generators', () => {
 
       expect(markdown).toContain('# My Config');
     });
+
+    it('lists command-line flags when requested', () => {
+      const markdown = generateMarkdown(schema, { includeFlags: true });
+
+      expect(markdown).toContain('| Flags |');
+      expect(markdown).toContain('`--server.port`, `--server-port`');
+      expect(markdown).toContain('`--debug`, `--no-debug`');
+    });
   });
 
   describe('generateEnvExample', () => {
@@ -57,6 +65,22 @@ describe('Documentation Generators', () => {
       expect(envExample).toContain('APP_DATABASE__URL=');
     });
 
+    it('uses explicit env names from schema metadata', () => {
+      const mapped = z.object({
+        database: z.object({
+          url: z.string().meta({ env: ['DATABASE_URL', 'DB_URL'] }),
+        }),
+        port: z.number().default(3000).meta({ env: 'PORT' }),
+      });
+
+      const envExample = generateEnvExample(mapped, { prefix: 'APP_' });
+
+      expect(envExample).toContain('DATABASE_URL=');
+      expect(envExample).toContain('# Fallbacks: DB_URL');
+      expect(envExample).toContain('PORT=3000');
+      expect(envExample).not.toContain('APP_DATABASE__URL=');
+    });
+
     it('includes comments by default', () => {
       const envExample = generateEnvExample(schema);
 
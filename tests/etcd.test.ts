@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { defineConfig, createEtcdPlugin, ConfigFetchError } from '../src/index.js';
+import type { ConfigEvent, PluginLoadContext } from '../src/index.js';
+import { startFakeEtcd, type FakeEtcd } from './fakes/etcd.js';
+import { waitFor } from './helpers/wait-for.js';
+
+let etcd: FakeEtcd;
+
+beforeEach(async () => {
+  etcd = await startFakeEtcd();
+});
+
+afterEach(async () => {
+  await etcd.close();
+});
+
+const context: PluginLoadContext = { profile: 'default', cwd: process.cwd(), env: {} };
+
+describe('etcd plugin', () => {
+  const schema = z.object({
+    database: z.object({
+      host: z.string(),
+      port: z.coerce.number(),
+    }),
+  });
+
+  it('reads a key prefix into nested config', async () => {
+    etcd.put('/myapp/prod/database/host', 'db.internal');
+    etcd.put('/myapp/prod/database/port', '5432');
+    etcd.put('/myapp/prod0/database/host', 'ignored');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createEtcdPlugin({ address: etcd.url })],
+      sources: [{ type: 'plugin', name: 'etcd', options: { prefix: '/myapp/prod/' } }],
+    }).load();
+
+    expect(config.get('database')).toEqual({ host: 'db.internal', port: 5432 });
+    expect(config.getSource('database.port')).toBe('etcd: /myapp/prod/database/port');
+  });
+
+  it('places keys under `at`', async () => {
+    etcd.put('db/host', 'db.internal');
+    etcd.put('db/port', '5432');
+
+    const plugin = createEtcdPlugin({ address: etcd.url });
+
+    expect(await plugin.load({ prefix: 'db/', at: 'database' }, context)).toEqual({
+      database: { host: 'db.internal', port: '5432' },
+    });
+  });
+
+  it('authenticates and re-authenticates when the token is rejected', async () => {
+    await etcd.close();
+    etcd = await startFakeEtcd({ auth: { username: 'app', password: 'pw' } });
+    etcd.put('app/key', 'value');
+
+    const plugin = createEtcdPlugin({ address: etcd.url, auth: { username: 'app', password: 'pw' } });
+    expect(await plugin.load({ prefix: 'app/' }, context)).toEqual({ key: 'value' });
+    expect(etcd.requests).toEqual(['/v3/auth/authenticate', '/v3/kv/range']);
+
+    etcd.revokeTokens();
+    etcd.put('app/key', 'again');
+    expect(await plugin.load({ prefix: 'app/' }, context)).toEqual({ key: 'again' });
+    expect(etcd.requests.slice(2)).toEqual(['/v3/kv/range', '/v3/auth/authenticate', '/v3/kv/range']);
+  });
+
+  it('fails with ConfigFetchError for bad credentials', async () => {
+    await etcd.close();
+    etcd = await startFakeEtcd({ auth: { username: 'app', password: 'pw' } });
+
+    const error = await createEtcdPlugin({ address: etcd.url, auth: { username: 'app', password: 'wrong' } })
+      .load({ prefix: 'app/' }, context)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigFetchError);
+    expect((error as ConfigFetchError).message).toContain('authentication failed');
+  });
+});
+
+describe('etcd plugin watch', () => {
+  const schema = z.object({ feature: z.object({ enabled: z.string() }) });
+
+  it('reloads when a key below the prefix changes', async () => {
+    etcd.put('flags/feature/enabled', 'false');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createEtcdPlugin({ address: etcd.url })],
+      sources: [{ type: 'plugin', name: 'etcd', options: { prefix: 'flags/' } }],
+    }).load();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+    config.watch({ debounce: 5 });
+    await waitFor(() => etcd.requests.includes('/v3/watch'));
+
+    etcd.put('other/key', 'ignored');
+    etcd.put('flags/feature/enabled', 'true');
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    await config.close();
+
+    expect(config.get('feature.enabled')).toBe('true');
+    expect(etcd.requests.filter((request) => request === '/v3/kv/range')).toHaveLength(2);
+  });
+
+  it('catches up on changes made before the watch started', async () => {
+    etcd.put('flags/feature/enabled', 'false');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createEtcdPlugin({ address: etcd.url })],
+      sources: [{ type: 'plugin', name: 'etcd', options: { prefix: 'flags/' } }],
+    }).load();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+    etcd.put('flags/feature/enabled', 'true');
+    config.watch({ debounce: 5 });
+
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    await config.close();
+
+    expect(config.get('feature.enabled')).toBe('true');
+  });
+
+  it('waits before reconnecting a watch stream the server ended', async () => {
+    etcd.put('flags/feature/enabled', 'false');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createEtcdPlugin({ address: etcd.url })],
+      sources: [{ type: 'plugin', name: 'etcd', options: { prefix: 'flags/' } }],
+    }).load();
+
+    config.watch({ debounce: 5 });
+    await waitFor(() => etcd.requests.includes('/v3/watch'));
+
+    etcd.endWatches();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(etcd.requests.filter((request) => request === '/v3/watch')).toHaveLength(1);
+
+    await waitFor(() => etcd.requests.filter((request) => request === '/v3/watch').length === 2);
+    await config.close();
+    expect(etcd.requests.filter((request) => request === '/v3/watch')).toHaveLength(2);
+  });
+
+  it('authenticates again when a reconnecting watch is rejected', async () => {
+    await etcd.close();
+    etcd = await startFakeEtcd({ auth: { username: 'app', password: 'pw' } });
+    etcd.put('flags/feature/enabled', 'false');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createEtcdPlugin({ address: etcd.url, auth: { username: 'app', password: 'pw' } })],
+      sources: [{ type: 'plugin', name: 'etcd', options: { prefix: 'flags/' } }],
+    }).load();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+    config.watch({ debounce: 5 });
+    await waitFor(() => etcd.requests.includes('/v3/watch'));
+
+    etcd.revokeTokens();
+    etcd.endWatches();
+    await waitFor(() => etcd.requests.filter((request) => request === '/v3/auth/authenticate').length === 2);
+    await waitFor(() => etcd.requests.filter((request) => request === '/v3/watch').length === 3);
+
+    etcd.put('flags/feature/enabled', 'true');
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    await config.close();
+
+    expect(events.filter((event) => event.type === 'error')).toEqual([]);
+    expect(config.get('feature.enabled')).toBe('true');
+  });
+
+  it('reloads and follows the current revision when the watch start was compacted', async () => {
+    etcd.put('flags/feature/enabled', 'false');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createEtcdPlugin({ address: etcd.url })],
+      sources: [{ type: 'plugin', name: 'etcd', options: { prefix: 'flags/' } }],
+    }).load();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+    config.watch({ debounce: 5 });
+    await waitFor(() => etcd.requests.includes('/v3/watch'));
+
+    // Changes made while the watch was away are compacted before it reconnects
+    etcd.endWatches();
+    etcd.put('flags/feature/enabled', 'true');
+    etcd.put('other/key', 'ignored');
+    etcd.compact();
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    expect(config.get('feature.enabled')).toBe('true');
+
+    etcd.put('flags/feature/enabled', 'later');
+    await waitFor(() => config.get('feature.enabled') === 'later');
+    await config.close();
+
+    expect(events.filter((event) => event.type === 'error')).toEqual([]);
+    expect(config.get('feature.enabled')).toBe('later');
+  });
+
+  it('reports errors when the watch stream fails', async () => {
+    etcd.put('flags/feature/enabled', 'false');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createEtcdPlugin({ address: etcd.url })],
+      sources: [{ type: 'plugin', name: 'etcd', options: { prefix: 'flags/' } }],
+    }).load();
+
+    // Take the server away before the watch connects
+    await etcd.close();
+    etcd = await startFakeEtcd();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+    config.watch({ debounce: 5 });
+
+    await waitFor(() => events.some((event) => event.type === 'error'));
+    await config.close();
+
+    const error = events.find((event) => event.type === 'error');
+    expect(error).toMatchObject({ source: 'plugin: etcd' });
+    expect((error as { error: Error }).error).toBeInstanceOf(ConfigFetchError);
+  });
+});
@@ -0,0 +1,144 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { signAwsRequest, type AwsCredentials } from '../../src/plugins/aws.js';
+
+interface FakeParameter {
+  Name: string;
+  Type: 'String' | 'StringList' | 'SecureString';
+  Value: string;
+}
+
+export interface FakeAws {
+  url: string;
+  region: string;
+  credentials: AwsCredentials;
+  /** `X-Amz-Target` of each request received */
+  requests: Array<{ target: string; body: Record<string, unknown> }>;
+  setSecret(name: string, value: string, options?: { binary?: boolean }): string;
+  setParameter(name: string, value: string, type?: FakeParameter['Type']): void;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process stand-in for the Secrets Manager and SSM JSON APIs, like LocalStack.
+ * Rejects requests whose SigV4 signature does not match the request.
+ */
+export async function startFakeAws(): Promise<FakeAws> {
+  const region = 'eu-central-1';
+  const credentials: AwsCredentials = { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'fake-secret-key' };
+  const secrets = new Map<string, { arn: string; value: string; binary: boolean }>();
+  const parameters: FakeParameter[] = [];
+  const requests: FakeAws['requests'] = [];
+
+  const send = (res: ServerResponse, status: number, body: unknown): void => {
+    res.writeHead(status, { 'content-type': 'application/x-amz-json-1.1' });
+    res.end(JSON.stringify(body));
+  };
+
+  /**
+   * Recompute the signature from the signed headers and compare
+   */
+  const verifySignature = (req: IncomingMessage, body: string, url: string): boolean => {
+    const authorization = String(req.headers.authorization ?? '');
+    const match = /Credential=([^/]+)\/\d{8}\/([^/]+)\/([^/]+)\/aws4_request, SignedHeaders=([^,]+), Signature=(\w+)/
+      .exec(authorization);
+    if (!match || match[1] !== credentials.accessKeyId || match[2] !== region) return false;
+
+    const headers: Record<string, string> = {};
+    for (const name of match[4]!.split(';')) {
+      if (name !== 'authorization') headers[name] = String(req.headers[name] ?? '');
+    }
+
+    const amzDate = headers['x-amz-date'] ?? '';
+    const date = new Date(
+      `${amzDate.slice(0, 4)}-${amzDate.slice(4, 6)}-${amzDate.slice(6, 8)}T${amzDate.slice(9, 11)}:${amzDate.slice(11, 13)}:${amzDate.slice(13, 15)}Z`
+    );
+    const expected = signAwsRequest(
+      { method: req.method ?? 'POST', url, headers, body },
+      { region, service: match[3]!, credentials, date }
+    );
+    return expected.authorization === authorization;
+  };
+
+  const server = createServer((req, res) => {
+    let text = '';
+    req.on('data', (chunk) => (text += String(chunk)));
+    req.on('end', () => {
+      const url = `http://${req.headers.host}${req.url}`;
+      if (!verifySignature(req, text, url)) {
+        send(res, 403, { __type: 'InvalidSignatureException', message: 'The request signature does not match' });
+        return;
+      }
+
+      const target = String(req.headers['x-amz-target'] ?? '');
+      const body = JSON.parse(text || '{}') as Record<string, unknown>;
+      requests.push({ target, body });
+
+      if (target === 'secretsmanager.GetSecretValue') {
+        const secret = secrets.get(String(body.SecretId)) ??
+          [...secrets.values()].find((candidate) => candidate.arn === body.SecretId);
+        if (!secret) {
+          send(res, 400, {
+            __type: 'ResourceNotFoundException',
+            message: "Secrets Manager can't find the specified secret.",
+          });
+          return;
+        }
+        send(res, 200, {
+          ARN: secret.arn,
+          Name: String(body.SecretId),
+          ...(secret.binary
+            ? { SecretBinary: Buffer.from(secret.value).toString('base64') }
+            : { SecretString: secret.value }),
+        });
+        return;
+      }
+
+      if (target === 'AmazonSSM.GetParametersByPath') {
+        const path = String(body.Path).replace(/\/+$/, '');
+        const matching = parameters.filter((parameter) => {
+          if (!parameter.Name.startsWith(`${path}/`)) return false;
+          return body.Recursive === true || !parameter.Name.slice(path.length + 1).includes('/');
+        });
+
+        const start = Number(body.NextToken ?? 0);
+        const end = start + Number(body.MaxResults ?? 10);
+        send(res, 200, {
+          Parameters: matching.slice(start, end).map((parameter) => ({
+            ...parameter,
+            // SecureStrings stay encrypted without WithDecryption
+            Value: parameter.Type === 'SecureString' && body.WithDecryption !== true
+              ? Buffer.from(parameter.Value).toString('base64')
+              : parameter.Value,
+            ARN: `arn:aws:ssm:${region}:000000000000:parameter${parameter.Name}`,
+          })),
+          ...(end < matching.length ? { NextToken: String(end) } : {}),
+        });
+        return;
+      }
+
+      send(res, 400, { __type: 'UnknownOperationException' });
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    region,
+    credentials,
+    requests,
+    setSecret(name, value, options = {}) {
+      const arn = `arn:aws:secretsmanager:${region}:000000000000:secret:${name}-AbCdEf`;
+      secrets.set(name, { arn, value, binary: options.binary ?? false });
+      return arn;
+    },
+    setParameter(name, value, type = 'String') {
+      parameters.push({ Name: name, Type: type, Value: value });
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { createServer, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface FakeConsul {
+  url: string;
+  /** Requests received, as path and query */
+  requests: string[];
+  set(key: string, value: string): void;
+  delete(key: string): void;
+  /** Fail the next requests with a 500 */
+  fail(count: number): void;
+  /** Move the index back, as restoring a snapshot does */
+  resetIndex(index: number): void;
+  /** Never answer blocking queries, as a connection dropped by the network does */
+  stall(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process stand-in for the Consul KV HTTP API, including blocking queries
+ */
+export async function startFakeConsul(options: { token?: string } = {}): Promise<FakeConsul> {
+  const store = new Map<string, { value: string; modifyIndex: number }>();
+  const requests: string[] = [];
+  let index = 1;
+  let failures = 0;
+  let stalled = false;
+  let waiters: Array<() => void> = [];
+
+  const bump = (): void => {
+    index++;
+    const pending = waiters;
+    waiters = [];
+    pending.forEach((wake) => wake());
+  };
+
+  const parseWait = (wait: string | null): number => {
+    const match = /^(\d+)(ms|s|m)$/.exec(wait ?? '');
+    if (!match) return 300000;
+    const unit = { ms: 1, s: 1000, m: 60000 }[match[2] as 'ms' | 's' | 'm'];
+    return Number(match[1]) * unit;
+  };
+
+  const respond = (res: ServerResponse, prefix: string): void => {
+    const entries = [...store.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .sort(([a], [b]) => a.localeCompare(b));
+
+    res.setHeader('x-consul-index', String(index));
+    if (entries.length === 0) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(entries.map(([key, entry]) => ({
+      Key: key,
+      // Folders (keys ending in a slash) have no value
+      Value: key.endsWith('/') ? null : Buffer.from(entry.value).toString('base64'),
+      ModifyIndex: entry.modifyIndex,
+      Flags: 0,
+    }))));
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://consul');
+    requests.push(`${url.pathname}${url.search}`);
+
+    if (options.token && req.headers['x-consul-token'] !== options.token) {
+      res.writeHead(403).end('Permission denied');
+      return;
+    }
+    if (failures > 0) {
+      failures--;
+      res.writeHead(500).end('rpc error: No cluster leader');
+      return;
+    }
+    if (!url.pathname.startsWith('/v1/kv/')) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const prefix = decodeURIComponent(url.pathname.slice('/v1/kv/'.length));
+    const requestedIndex = Number(url.searchParams.get('index') ?? 0);
+
+    // Blocking query: hold the request until the index moves past the one requested
+    if (requestedIndex > 0 && requestedIndex >= index) {
+      if (stalled) return;
+
+      const wake = (): void => {
+        clearTimeout(timer);
+        respond(res, prefix);
+      };
+      const timer = setTimeout(() => {
+        waiters = waiters.filter((waiter) => waiter !== wake);
+        respond(res, prefix);
+      }, parseWait(url.searchParams.get('wait')));
+      waiters.push(wake);
+      req.on('close', () => {
+        clearTimeout(timer);
+        waiters = waiters.filter((waiter) => waiter !== wake);
+      });
+      return;
+    }
+
+    respond(res, prefix);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    set(key, value) {
+      store.set(key, { value, modifyIndex: index + 1 });
+      bump();
+    },
+    delete(key) {
+      store.delete(key);
+      bump();
+    },
+    fail(count) {
+      failures = count;
+    },
+    stall() {
+      stalled = true;
+    },
+    resetIndex(value) {
+      index = value - 1;
+      bump();
+    },
+    async close() {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+interface FakeWatch {
+  key: string;
+  rangeEnd: string;
+  res: ServerResponse;
+}
+
+export interface FakeEtcd {
+  url: string;
+  /** Paths of the requests received */
+  requests: string[];
+  put(key: string, value: string): void;
+  delete(key: string): void;
+  /** Invalidate every issued auth token */
+  revokeTokens(): void;
+  /** End every open watch stream, as a server restarting gracefully does */
+  endWatches(): void;
+  /** Compact the history up to the current revision, canceling watches that start before it */
+  compact(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process stand-in for the etcd v3 JSON gateway: range reads, watch streams
+ * and, when `auth` is set, password authentication.
+ */
+export async function startFakeEtcd(
+  options: { auth?: { username: string; password: string } } = {}
+): Promise<FakeEtcd> {
+  const store = new Map<string, { value: string; modRevision: number }>();
+  const requests: string[] = [];
+  const tokens = new Set<string>();
+  let watches: FakeWatch[] = [];
+  let revision = 1;
+  let compacted = 0;
+  let issued = 0;
+
+  const decode = (value: unknown): string => Buffer.from(String(value ?? ''), 'base64').toString('utf-8');
+  const encode = (value: string): string => Buffer.from(value).toString('base64');
+  const inRange = (key: string, start: string, end: string): boolean =>
+    end === '\0' ? key >= start : key >= start && key < end;
+
+  const readBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+    let text = '';
+    for await (const chunk of req) text += String(chunk);
+    return JSON.parse(text || '{}') as Record<string, unknown>;
+  };
+
+  const send = (res: ServerResponse, status: number, body: unknown): void => {
+    res.writeHead(status, { 'content-type': 'application/json' }).end(JSON.stringify(body));
+  };
+
+  const header = () => ({ cluster_id: '1', member_id: '1', revision: String(revision), raft_term: '2' });
+
+  const notifyWatches = (key: string, type: 'PUT' | 'DELETE'): void => {
+    for (const watch of watches) {
+      if (!inRange(key, watch.key, watch.rangeEnd)) continue;
+      const kv = { key: encode(key), value: encode(store.get(key)?.value ?? ''), mod_revision: String(revision) };
+      watch.res.write(`${JSON.stringify({ result: { header: header(), events: [{ type, kv }] } })}\n`);
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    requests.push(req.url ?? '');
+    const body = await readBody(req);
+
+    if (req.url === '/v3/auth/authenticate') {
+      if (body.name !== options.auth?.username || body.password !== options.auth?.password) {
+        send(res, 400, { error: 'etcdserver: authentication failed', code: 3, message: 'etcdserver: authentication failed' });
+        return;
+      }
+      const token = `token-${++issued}`;
+      tokens.add(token);
+      send(res, 200, { header: header(), token });
+      return;
+    }
+
+    if (options.auth && !tokens.has(String(req.headers.authorization))) {
+      send(res, 401, { error: 'etcdserver: invalid auth token', code: 16, message: 'etcdserver: invalid auth token' });
+      return;
+    }
+
+    if (req.url === '/v3/kv/range') {
+      const start = decode(body.key);
+      const end = decode(body.range_end);
+      const kvs = [...store.entries()]
+        .filter(([key]) => inRange(key, start, end))
+        .sort(([a], [b]) => (a < b ? -1 : 1))
+        .map(([key, entry]) => ({
+          key: encode(key),
+          value: encode(entry.value),
+          mod_revision: String(entry.modRevision),
+        }));
+      send(res, 200, { header: header(), kvs, count: String(kvs.length) });
+      return;
+    }
+
+    if (req.url === '/v3/watch') {
+      const create = body.create_request as Record<string, unknown>;
+      const watch: FakeWatch = { key: decode(create.key), rangeEnd: decode(create.range_end), res };
+
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.write(`${JSON.stringify({ result: { header: header(), created: true } })}\n`);
+
+      // The changes to replay are gone; the stream stays open, as the gateway's does
+      const startRevision = Number(create.start_revision ?? 0);
+      if (startRevision > 0 && startRevision < compacted) {
+        const cancel = {
+          header: header(),
+          canceled: true,
+          compact_revision: String(compacted),
+          cancel_reason: 'mvcc: required revision has been compacted',
+        };
+        res.write(`${JSON.stringify({ result: cancel })}\n`);
+        return;
+      }
+
+      // Replay changes made since the requested revision
+      const missed = [...store.entries()].filter(
+        ([key, entry]) => entry.modRevision >= startRevision && inRange(key, watch.key, watch.rangeEnd)
+      );
+      if (startRevision > 0 && missed.length > 0) {
+        const events = missed.map(([key, entry]) => ({
+          type: 'PUT',
+          kv: { key: encode(key), value: encode(entry.value), mod_revision: String(entry.modRevision) },
+        }));
+        res.write(`${JSON.stringify({ result: { header: header(), events } })}\n`);
+      }
+
+      watches.push(watch);
+      req.on('close', () => {
+        watches = watches.filter((candidate) => candidate !== watch);
+      });
+      return;
+    }
+
+    send(res, 404, { error: 'Not Found', code: 5, message: 'Not Found' });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => send(res, 500, { error: String(error) }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    put(key, value) {
+      revision++;
+      store.set(key, { value, modRevision: revision });
+      notifyWatches(key, 'PUT');
+    },
+    delete(key) {
+      revision++;
+      store.delete(key);
+      notifyWatches(key, 'DELETE');
+    },
+    revokeTokens() {
+      tokens.clear();
+    },
+    endWatches() {
+      for (const watch of watches) watch.res.end();
+      watches = [];
+    },
+    compact() {
+      compacted = revision;
+    },
+    async close() {
+      for (const watch of watches) watch.res.end();
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
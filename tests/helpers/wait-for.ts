@@ -0,0 +1,10 @@
+/**
+ * Poll until a condition holds, giving up after `timeout` milliseconds.
+ * Assert on the outcome afterwards; this never throws.
+ */
+export async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
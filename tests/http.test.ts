@@ -0,0 +1,334 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdirSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { HttpLoader, defineConfig, ConfigFetchError, ConfigParseError } from '../src/index.js';
+import type { ConfigEvent, ConfigSourceEvent, HttpValidators, LoaderContext } from '../src/index.js';
+
+const TEST_DIR = join(import.meta.dirname, '.test-http');
+
+const context: LoaderContext = { profile: 'default', cwd: TEST_DIR, env: {} };
+
+/**
+ * Stand-in config server.
+ * /config.json is versioned and honors If-None-Match; /plain is versioned
+ * without validators; /flaky fails `failures` times before succeeding.
+ */
+const state = {
+  version: 1,
+  available: true,
+  failures: 0,
+  requests: [] as Array<{ url: string; headers: IncomingHttpHeaders }>,
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    state.requests.push({ url: req.url ?? '', headers: req.headers });
+    const etag = `"v${state.version}"`;
+
+    switch (new URL(req.url ?? '/', 'http://localhost').pathname) {
+      case '/config.json':
+        if (!state.available) {
+          res.writeHead(503).end();
+        } else if (req.headers['if-none-match'] === etag) {
+          res.writeHead(304, { etag }).end();
+        } else {
+          res.writeHead(200, { 'content-type': 'application/json', etag });
+          res.end(JSON.stringify({ port: 3000 + state.version, host: 'localhost' }));
+        }
+        break;
+      case '/plain':
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ port: 3000 + state.version }));
+        break;
+      case '/truncated':
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.write('{ "port": ');
+        setTimeout(() => res.destroy(), 10);
+        break;
+      case '/config':
+        res.writeHead(200, { 'content-type': 'text/yaml' });
+        res.end('port: 8080\nhost: example.com\n');
+        break;
+      case '/flaky':
+        if (state.failures > 0) {
+          state.failures--;
+          res.writeHead(503).end();
+        } else {
+          res.writeHead(200, { 'content-type': 'application/json' }).end('{"port": 9000}');
+        }
+        break;
+      case '/slow':
+        setTimeout(() => res.writeHead(200).end('{}'), 500);
+        break;
+      case '/invalid':
+        res.writeHead(200, { 'content-type': 'application/json' }).end('{ "port": ');
+        break;
+      default:
+        res.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  mkdirSync(TEST_DIR, { recursive: true });
+  state.version = 1;
+  state.available = true;
+  state.failures = 0;
+  state.requests = [];
+});
+
+afterEach(() => {
+  rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe('HttpLoader', () => {
+  it('fetches JSON and records the ETag', async () => {
+    const validators = new Map<string, HttpValidators>();
+    const loader = new HttpLoader();
+    const result = await loader.load({ url: `${baseUrl}/config.json`, validators }, context);
+
+    expect(result).toEqual({ port: 3001, host: 'localhost' });
+    expect(validators.get(`${baseUrl}/config.json`)?.etag).toBe('"v1"');
+  });
+
+  it('detects YAML from the Content-Type header', async () => {
+    const loader = new HttpLoader();
+    const result = await loader.load({ url: `${baseUrl}/config` }, context);
+
+    expect(result).toEqual({ port: 8080, host: 'example.com' });
+  });
+
+  it('sends custom headers and authentication', async () => {
+    const loader = new HttpLoader();
+    await loader.load({
+      url: `${baseUrl}/config.json`,
+      headers: { 'x-team': 'platform' },
+      auth: { type: 'basic', username: 'app', password: 'secret' },
+    }, context);
+
+    const { headers } = state.requests[0]!;
+    expect(headers['x-team']).toBe('platform');
+    expect(headers.authorization).toBe(`Basic ${Buffer.from('app:secret').toString('base64')}`);
+  });
+
+  it('retries failed requests with backoff', async () => {
+    state.failures = 2;
+
+    const loader = new HttpLoader();
+    const result = await loader.load({ url: `${baseUrl}/flaky`, retries: 2, retryDelay: 5 }, context);
+
+    expect(result).toEqual({ port: 9000 });
+    expect(state.requests).toHaveLength(3);
+  });
+
+  it('throws ConfigFetchError when retries are exhausted', async () => {
+    state.failures = 5;
+
+    const loader = new HttpLoader();
+    const error = await loader
+      .load({ url: `${baseUrl}/flaky`, retries: 1, retryDelay: 5 }, context)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigFetchError);
+    expect((error as ConfigFetchError).status).toBe(503);
+    expect(state.requests).toHaveLength(2);
+  });
+
+  it('times out slow requests', async () => {
+    const loader = new HttpLoader();
+
+    await expect(
+      loader.load({ url: `${baseUrl}/slow`, timeout: 50, retries: 0 }, context)
+    ).rejects.toThrow('Timed out after 50ms');
+  });
+
+  it('returns empty object for a missing optional resource', async () => {
+    const loader = new HttpLoader();
+
+    expect(await loader.load({ url: `${baseUrl}/missing`, optional: true }, context)).toEqual({});
+    await expect(loader.load({ url: `${baseUrl}/missing` }, context)).rejects.toThrow(ConfigFetchError);
+  });
+
+  it('throws ConfigParseError for invalid bodies', async () => {
+    const loader = new HttpLoader();
+
+    await expect(loader.load({ url: `${baseUrl}/invalid` }, context)).rejects.toThrow(ConfigParseError);
+  });
+
+  it('falls back to the cached copy when the fetch fails', async () => {
+    const loader = new HttpLoader();
+    const options = { url: `${baseUrl}/config.json`, cache: 'cache/config.json', retries: 0 };
+
+    await loader.load(options, context);
+    expect(existsSync(join(TEST_DIR, 'cache', 'config.json'))).toBe(true);
+
+    state.available = false;
+    state.version = 2;
+
+    expect(await loader.load(options, context)).toEqual({ port: 3001, host: 'localhost' });
+  });
+
+  it('rethrows when the fetch fails without a cached copy', async () => {
+    state.available = false;
+
+    const loader = new HttpLoader();
+
+    await expect(
+      loader.load({ url: `${baseUrl}/config.json`, cache: 'cache/config.json', retries: 0 }, context)
+    ).rejects.toThrow(ConfigFetchError);
+  });
+
+  it('uses If-None-Match to check for changes', async () => {
+    const loader = new HttpLoader();
+    const options = { url: `${baseUrl}/config.json` };
+
+    expect(await loader.hasChanged(options, { etag: '"v1"', hash: '' })).toBe(false);
+    expect(state.requests[0]!.headers['if-none-match']).toBe('"v1"');
+
+    state.version = 2;
+    expect(await loader.hasChanged(options, { etag: '"v1"', hash: '' })).toBe(true);
+  });
+
+  it('compares the body when the server sends no validators', async () => {
+    const validators = new Map<string, HttpValidators>();
+    const loader = new HttpLoader();
+    const options = { url: `${baseUrl}/plain` };
+
+    await loader.load({ ...options, validators }, context);
+
+    expect(await loader.hasChanged(options, validators.get(options.url))).toBe(false);
+
+    state.version = 2;
+    expect(await loader.hasChanged(options, validators.get(options.url))).toBe(true);
+  });
+
+  it('wraps a failing response body in ConfigFetchError', async () => {
+    const loader = new HttpLoader();
+    const error = await loader.load({ url: `${baseUrl}/truncated`, retries: 0 }, context).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigFetchError);
+    expect((error as ConfigFetchError).url).toBe(`${baseUrl}/truncated`);
+  });
+
+  it('strips credentials from URLs in errors', async () => {
+    const loader = new HttpLoader();
+    const error = await loader
+      .load({ url: `${baseUrl}/missing?api_key=abc123&env=prod`, retries: 0 }, context)
+      .catch((e: unknown) => e);
+
+    expect((error as ConfigFetchError).url).toBe(`${baseUrl}/missing?api_key=********&env=prod`);
+    expect((error as ConfigFetchError).message).not.toContain('abc123');
+  });
+});
+
+describe('http source', () => {
+  const schema = z.object({
+    port: z.number(),
+    host: z.string(),
+  });
+
+  it('loads config and reports the URL as source', async () => {
+    const config = await defineConfig({
+      schema,
+      sources: [{ type: 'http', url: `${baseUrl}/config.json`, auth: { type: 'bearer', token: 'abc' } }],
+    }).load();
+
+    expect(config.get('port')).toBe(3001);
+    expect(config.getSource('port')).toBe(`http: ${baseUrl}/config.json`);
+    expect(state.requests[0]!.headers.authorization).toBe('Bearer abc');
+  });
+
+  it('reports the URL without credentials as source', async () => {
+    const config = await defineConfig({
+      schema,
+      sources: [{ type: 'http', url: `${baseUrl}/config.json?token=abc&env=prod` }],
+    }).load();
+
+    expect(config.getSource('port')).toBe(`http: ${baseUrl}/config.json?token=********&env=prod`);
+  });
+
+  it('reports retried and timed-out requests as source events', async () => {
+    state.failures = 2;
+    const events: ConfigSourceEvent[] = [];
+
+    const config = await defineConfig({
+      schema: z.object({ port: z.number() }),
+      sources: [{ type: 'http', url: `${baseUrl}/flaky`, retries: 2, retryDelay: 5 }],
+      onSourceEvent: (event) => events.push(event),
+    }).load();
+
+    expect(config.get('port')).toBe(9000);
+    expect(events.map(({ source, action, attempt, delay }) => ({ source, action, attempt, delay }))).toEqual([
+      { source: `http: ${baseUrl}/flaky`, action: 'retry', attempt: 1, delay: 5 },
+      { source: `http: ${baseUrl}/flaky`, action: 'retry', attempt: 2, delay: 10 },
+    ]);
+    expect(events[0]!.error).toBeInstanceOf(ConfigFetchError);
+
+    events.length = 0;
+    await defineConfig({
+      schema,
+      sources: [{ type: 'http', url: `${baseUrl}/slow`, timeout: 20, retries: 0 }],
+      onSourceEvent: (event) => events.push(event),
+    }).load().catch(() => {});
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ action: 'timeout', attempt: 1 });
+    expect(events[0]!.error?.message).toContain('Timed out after 20ms');
+  });
+
+  it('polls for changes in watch mode', async () => {
+    const config = await defineConfig({
+      schema,
+      sources: [{ type: 'http', url: `${baseUrl}/config.json`, pollInterval: 20 }],
+    }).load();
+
+    const changed = new Promise<ConfigEvent>((resolve) => {
+      config.on((event) => {
+        if (event.type === 'change') resolve(event);
+      });
+    });
+
+    config.watch({ debounce: 10 });
+
+    // Unchanged polls are answered with 304
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(config.get('port')).toBe(3001);
+    expect(state.requests.some((request) => request.headers['if-none-match'] === '"v1"')).toBe(true);
+
+    state.version = 2;
+
+    const event = await changed;
+    config.unwatch();
+
+    expect(event).toMatchObject({ type: 'change', changedPaths: ['port'] });
+    expect(config.get('port')).toBe(3002);
+  });
+
+  it('stops polling on unwatch', async () => {
+    const config = await defineConfig({
+      schema,
+      sources: [{ type: 'http', url: `${baseUrl}/config.json`, pollInterval: 10 }],
+    }).load();
+
+    config.watch();
+    config.unwatch();
+    const count = state.requests.length;
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(state.requests).toHaveLength(count);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { interpolate, hasInterpolation, CircularReferenceError } from '../src/utils/interpolate.js';
+import { z } from 'zod';
+import {
+  interpolate,
+  hasInterpolation,
+  CircularReferenceError,
+  MissingVariableError,
+} from '../src/utils/interpolate.js';
+import { defineConfig, ConfigValidationError } from '../src/index.js';
 
 describe('Variable Interpolation', () => {
   describe('interpolate', () => {
@@ -243,6 +250,144 @@ describe('Variable Interpolation', () => {
     });
   });
 
+  describe('shell-style operators', () => {
+    it('uses ${VAR:-default} when the variable is unset or empty', () => {
+      const config = {
+        host: '${HOST:-localhost}',
+        port: '${PORT:-5432}',
+        user: '${DB_USER:-app}',
+        url: 'postgres://${db.host:-db.internal}/mydb',
+      };
+
+      const result = interpolate(config, { env: { PORT: '6543', DB_USER: '' } });
+
+      expect(result).toEqual({
+        host: 'localhost',
+        port: '6543',
+        user: 'app',
+        url: 'postgres://db.internal/mydb',
+      });
+    });
+
+    it('interpolates nested references and braces in defaults', () => {
+      const config = {
+        host: '${HOST:-${FALLBACK_HOST}}',
+        url: '${API_URL:-https://${HOST:-localhost}:${PORT:-443}}/v1',
+        json: '${FLAGS:-{"beta":true}}',
+        escaped: '${MODE:-$${MODE}}',
+        unterminated: '${HOST:-{',
+      };
+
+      const result = interpolate(config, { env: { FALLBACK_HOST: 'api.internal', PORT: '8443' } });
+
+      expect(result).toEqual({
+        host: 'api.internal',
+        url: 'https://localhost:8443/v1',
+        json: '{"beta":true}',
+        escaped: '${MODE}',
+        unterminated: '${HOST:-{',
+      });
+    });
+
+    it('throws for ${VAR:?message} naming the config path', () => {
+      const config = {
+        database: { password: '${DB_PASSWORD:?set DB_PASSWORD to the database password}' },
+      };
+
+      try {
+        interpolate(config, { env: {} });
+        expect.fail('Should have thrown');
+      } catch (err) {
+        expect(err).toBeInstanceOf(MissingVariableError);
+        expect((err as MissingVariableError).variable).toBe('DB_PASSWORD');
+        expect((err as MissingVariableError).path).toBe('database.password');
+        expect((err as MissingVariableError).message).toBe(
+          'Missing variable DB_PASSWORD referenced at database.password: set DB_PASSWORD to the database password'
+        );
+      }
+
+      expect(interpolate(config, { env: { DB_PASSWORD: 's3cret' } }).database.password).toBe('s3cret');
+      expect(() => interpolate({ value: '${EMPTY:?}' }, { env: { EMPTY: '' } })).toThrow(
+        'Missing variable EMPTY referenced at value'
+      );
+    });
+
+    it('names the path holding the reference in recursive resolution', () => {
+      const config = {
+        base: '${API_HOST:?}',
+        servers: ['${base}/v1'],
+      };
+
+      expect(() => interpolate(config, { env: {} })).toThrow(
+        expect.objectContaining({ path: 'base', variable: 'API_HOST' })
+      );
+    });
+  });
+
+  describe('escaping', () => {
+    it('turns $${literal} into a literal ${literal}', () => {
+      const config = {
+        template: 'Hello $${name}, from ${APP}',
+        script: ['echo $${HOME}'],
+      };
+
+      const result = interpolate(config, { env: { APP: 'zonfig', HOME: '/root', name: 'x' } });
+
+      expect(result.template).toBe('Hello ${name}, from zonfig');
+      expect(result.script).toEqual(['echo ${HOME}']);
+    });
+
+    it('keeps escaped values literal when referenced', () => {
+      const config = {
+        pattern: '$${id}',
+        route: '/users/${pattern}',
+      };
+
+      expect(interpolate(config).route).toBe('/users/${id}');
+    });
+  });
+
+  describe('strict mode', () => {
+    it('throws for unresolved references', () => {
+      const config = { server: { url: 'https://${API_HOST}/v1' } };
+
+      expect(() => interpolate(config, { env: {}, strict: true })).toThrow(MissingVariableError);
+      expect(() => interpolate(config, { env: {}, strict: true })).toThrow(
+        'Missing variable API_HOST referenced at server.url'
+      );
+      expect(interpolate(config, { env: {} }).server.url).toBe('https:///v1');
+    });
+
+    it('still applies defaults and empty values', () => {
+      const config = { a: '${UNSET:-fallback}', b: '${EMPTY}' };
+
+      expect(interpolate(config, { env: { EMPTY: '' }, strict: true })).toEqual({ a: 'fallback', b: '' });
+    });
+
+    it('is enabled through the interpolation config option', async () => {
+      const loading = defineConfig({
+        schema: z.object({ url: z.string() }),
+        sources: [{ type: 'object', data: { url: 'https://${ZONFIG_TEST_UNSET_HOST}/v1' } }],
+        interpolation: { strict: true },
+      }).load();
+
+      await expect(loading).rejects.toThrow(MissingVariableError);
+    });
+
+    it('fails loading with a ConfigValidationError naming the path', async () => {
+      const error = await defineConfig({
+        schema: z.object({ url: z.string() }),
+        sources: [{ type: 'object', data: { url: 'https://${ZONFIG_TEST_UNSET_HOST}/v1' } }],
+        interpolation: { strict: true },
+      }).load().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect((error as ConfigValidationError).errors).toEqual([
+        { path: 'url', message: 'Missing variable ZONFIG_TEST_UNSET_HOST referenced at url' },
+      ]);
+    });
+  });
+
   describe('hasInterpolation', () => {
     it('detects interpolation syntax', () => {
       expect(hasInterpolation('${VAR}')).toBe(true);
@@ -254,6 +399,7 @@ describe('Variable Interpolation', () => {
       expect(hasInterpolation('no variables')).toBe(false);
       expect(hasInterpolation('$VAR')).toBe(false);
       expect(hasInterpolation('{VAR}')).toBe(false);
+      expect(hasInterpolation('$${VAR}')).toBe(false);
     });
   });
 
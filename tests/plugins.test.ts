@@ -9,7 +9,11 @@ import {
   unregisterPlugin,
   clearPlugins,
   PluginNotFoundError,
+  PluginOptionsError,
+  ConfigValidationError,
 } from '../src/index.js';
+import type { ConfigEvent, PluginNotify } from '../src/index.js';
+import { waitFor } from './helpers/wait-for.js';
 
 describe('Plugin System', () => {
   beforeEach(() => {
@@ -108,6 +112,32 @@ describe('Plugin System', () => {
       expect(await config.get('dbPassword')).toBe('super-secret');
     });
 
+    it('loads config from a plugin passed in the options', async () => {
+      const secretsPlugin = definePlugin({
+        name: 'mock-secrets',
+        load: async (options: { secretId: string }) => ({
+          apiKey: `secret-${options.secretId}`,
+          dbPassword: 'super-secret',
+        }),
+      });
+
+      const schema = z.object({
+        apiKey: z.string(),
+        dbPassword: z.string(),
+      });
+
+      const config = defineConfig({
+        schema,
+        plugins: [secretsPlugin],
+        sources: [
+          { type: 'plugin', name: 'mock-secrets', options: { secretId: '123' } },
+        ],
+      });
+
+      expect(await config.get('apiKey')).toBe('secret-123');
+      expect(await config.get('dbPassword')).toBe('super-secret');
+    });
+
     it('throws PluginNotFoundError for unregistered plugin', async () => {
       const schema = z.object({
         value: z.string(),
@@ -123,6 +153,54 @@ describe('Plugin System', () => {
       await expect(config.load()).rejects.toThrow(PluginNotFoundError);
     });
 
+    it('falls back to the global registry', async () => {
+      registerPlugin(definePlugin({
+        name: 'registered-plugin',
+        load: async () => ({ value: 'from-registry' }),
+      }));
+
+      const config = await defineConfig({
+        schema: z.object({ value: z.string() }),
+        sources: [{ type: 'plugin', name: 'registered-plugin' }],
+      }).load();
+
+      expect(config.get('value')).toBe('from-registry');
+      unregisterPlugin('registered-plugin');
+    });
+
+    it('prefers config plugins over registered plugins of the same name', async () => {
+      registerPlugin(definePlugin({
+        name: 'shadowed',
+        load: async () => ({ value: 'from-registry' }),
+      }));
+
+      const config = await defineConfig({
+        schema: z.object({ value: z.string() }),
+        plugins: [definePlugin({ name: 'shadowed', load: async () => ({ value: 'from-config' }) })],
+        sources: [{ type: 'plugin', name: 'shadowed' }],
+      }).load();
+
+      expect(config.get('value')).toBe('from-config');
+      unregisterPlugin('shadowed');
+    });
+
+    it('keeps differently configured plugins of the same name apart', async () => {
+      const createRegionPlugin = (region: string) => definePlugin({
+        name: 'region',
+        load: async () => ({ region }),
+      });
+      const schema = z.object({ region: z.string() });
+      const sources = [{ type: 'plugin' as const, name: 'region' }];
+
+      const [eu, us] = await Promise.all([
+        defineConfig({ schema, sources, plugins: [createRegionPlugin('eu')] }).load(),
+        defineConfig({ schema, sources, plugins: [createRegionPlugin('us')] }).load(),
+      ]);
+
+      expect(eu.get('region')).toBe('eu');
+      expect(us.get('region')).toBe('us');
+    });
+
     it('merges plugin config with other sources', async () => {
       const plugin = definePlugin({
         name: 'partial-config',
@@ -152,4 +230,219 @@ describe('Plugin System', () => {
       expect(await config.get('server.port')).toBe(3000);
     });
   });
+
+  describe('plugin options schema', () => {
+    const schema = z.object({ secret: z.string() });
+
+    function createSecretsPlugin() {
+      const received: unknown[] = [];
+      const plugin = definePlugin({
+        name: 'secrets',
+        optionsSchema: z.object({
+          path: z.string(),
+          version: z.number().default(1),
+        }),
+        load: async (options) => {
+          received.push(options);
+          return { secret: `${options.path}@${options.version}` };
+        },
+      });
+      return { plugin, received };
+    }
+
+    it('passes validated options with defaults to load', async () => {
+      const { plugin, received } = createSecretsPlugin();
+
+      const config = await defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'secrets', options: { path: 'app/db' } }],
+      }).load();
+
+      expect(config.get('secret')).toBe('app/db@1');
+      expect(received).toEqual([{ path: 'app/db', version: 1 }]);
+    });
+
+    it('throws PluginOptionsError naming the plugin for invalid options', async () => {
+      const { plugin, received } = createSecretsPlugin();
+
+      const error = await defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'secrets', options: { version: 'latest' } }],
+      }).load().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(PluginOptionsError);
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect((error as PluginOptionsError).pluginName).toBe('secrets');
+      expect((error as PluginOptionsError).message).toContain('Invalid options for plugin "secrets":');
+      expect((error as PluginOptionsError).errors.map((e) => e.path)).toEqual(['path', 'version']);
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  describe('watching plugin sources', () => {
+    const schema = z.object({ version: z.number() });
+
+    function createWatchablePlugin() {
+      const state = {
+        version: 1,
+        notify: undefined as PluginNotify | undefined,
+        watchOptions: undefined as unknown,
+        stopped: 0,
+        initialized: 0,
+        disposed: 0,
+      };
+
+      const plugin = definePlugin({
+        name: 'watchable',
+        init: () => {
+          state.initialized++;
+        },
+        load: async () => ({ version: state.version }),
+        watch: (options, _context, notify) => {
+          state.watchOptions = options;
+          state.notify = notify;
+          return () => {
+            state.stopped++;
+          };
+        },
+        dispose: () => {
+          state.disposed++;
+        },
+      });
+
+      return { state, plugin };
+    }
+
+    it('reloads when the plugin notifies a change', async () => {
+      const { state, plugin } = createWatchablePlugin();
+      const config = await defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'watchable', options: { path: 'app/config' } }],
+      }).load();
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.watch({ debounce: 5 });
+
+      await waitFor(() => state.notify !== undefined);
+      expect(state.watchOptions).toEqual({ path: 'app/config' });
+
+      state.version = 2;
+      state.notify!();
+      await waitFor(() => events.some((event) => event.type === 'change'));
+
+      expect(config.get('version')).toBe(2);
+      config.unwatch();
+    });
+
+    it('reports errors passed to notify', async () => {
+      const { state, plugin } = createWatchablePlugin();
+      const config = await defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'watchable' }],
+      }).load();
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.watch();
+
+      await waitFor(() => state.notify !== undefined);
+      state.notify!(new Error('lease expired'));
+
+      expect(events).toEqual([
+        { type: 'error', error: new Error('lease expired'), source: 'plugin: watchable' },
+      ]);
+      config.unwatch();
+    });
+
+    it('stops watching on unwatch without disposing the plugin', async () => {
+      const { state, plugin } = createWatchablePlugin();
+      const config = await defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'watchable' }],
+      }).load();
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.watch({ debounce: 5 });
+      await waitFor(() => state.notify !== undefined);
+
+      config.unwatch();
+      await waitFor(() => state.stopped === 1);
+      expect(state.stopped).toBe(1);
+      expect(state.disposed).toBe(0);
+
+      // Notifications after unwatch are ignored
+      state.version = 2;
+      state.notify!();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(events).toHaveLength(0);
+    });
+
+    it('stops watches that finish starting after unwatch', async () => {
+      let started = false;
+      let stopped = false;
+      let finishStarting: () => void = () => {};
+
+      const plugin = definePlugin({
+        name: 'slow-watch',
+        load: async () => ({ version: 1 }),
+        watch: async () => {
+          started = true;
+          await new Promise<void>((resolve) => {
+            finishStarting = resolve;
+          });
+          return () => {
+            stopped = true;
+          };
+        },
+      });
+
+      const config = await defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'slow-watch' }],
+      }).load();
+
+      config.watch();
+      await waitFor(() => started);
+      config.unwatch();
+
+      finishStarting();
+      await waitFor(() => stopped);
+      expect(stopped).toBe(true);
+    });
+
+    it('initializes a shared plugin once and disposes it when the last config closes', async () => {
+      const { state, plugin } = createWatchablePlugin();
+      const options = {
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin' as const, name: 'watchable' }],
+      };
+
+      const first = await defineConfig(options).load();
+      const second = await defineConfig(options).load();
+      expect(state.initialized).toBe(1);
+
+      first.watch();
+      await waitFor(() => state.notify !== undefined);
+      await first.close();
+      expect(state.stopped).toBe(1);
+      expect(state.disposed).toBe(0);
+
+      await second.close();
+      expect(state.disposed).toBe(1);
+
+      // A config using the plugin afterwards initializes it again
+      const third = await defineConfig(options).load();
+      expect(state.initialized).toBe(2);
+      await third.close();
+    });
+  });
 });
@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { writeFileSync, readFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  defineConfig,
+  definePlugin,
+  createVaultPlugin,
+  SecretReferenceError,
+} from '../src/index.js';
+import type { SecretReference } from '../src/index.js';
+import { startFakeVault } from '../src/testing/index.js';
+
+const TEST_DIR = join(import.meta.dirname, '.test-references');
+
+beforeEach(() => {
+  mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterEach(() => {
+  rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+/**
+ * A resolver plugin answering `<location>:<key>`, recording each batch it receives
+ */
+function createEchoResolver(name = 'echo') {
+  const batches: string[][] = [];
+  const plugin = definePlugin({
+    name,
+    load: async () => ({}),
+    resolve: async (references: SecretReference[]) => {
+      batches.push(references.map((reference) => reference.uri));
+      return references.map((reference) => `${reference.location}:${reference.key ?? ''}`);
+    },
+  });
+  return { plugin, batches };
+}
+
+describe('Secret references', () => {
+  const schema = z.object({
+    database: z.object({
+      user: z.string(),
+      password: z.string(),
+    }),
+  });
+
+  it('resolves ref+file:// references', async () => {
+    writeFileSync(join(TEST_DIR, 'db_password'), 's3cret\n');
+
+    const config = await defineConfig({
+      schema,
+      cwd: TEST_DIR,
+      sources: [
+        { type: 'object', data: { database: { user: 'app', password: 'ref+file://./db_password' } } },
+      ],
+    }).load();
+
+    expect(config.get('database.password')).toBe('s3cret');
+    expect(config.getSource('database.password')).toBe('object -> ref+file://./db_password');
+    expect(config.getSource('database.user')).toBe('object');
+  });
+
+  it('picks keys from JSON files with #key', async () => {
+    const file = join(TEST_DIR, 'db.json');
+    writeFileSync(file, JSON.stringify({ credentials: { user: 'app', password: 'from-json' } }));
+
+    const config = await defineConfig({
+      schema,
+      sources: [
+        {
+          type: 'object',
+          data: {
+            database: {
+              user: `ref+file://${file}#credentials.user`,
+              password: `ref+file://${file}#credentials.password`,
+            },
+          },
+        },
+      ],
+    }).load();
+
+    expect(config.get('database')).toEqual({ user: 'app', password: 'from-json' });
+  });
+
+  it('batches references per plugin and resolves each URI once', async () => {
+    const { plugin, batches } = createEchoResolver();
+
+    const config = await defineConfig({
+      schema: z.object({ a: z.string(), b: z.string(), c: z.array(z.string()) }),
+      plugins: [plugin],
+      sources: [
+        {
+          type: 'object',
+          data: {
+            a: 'ref+echo://db#user',
+            b: 'ref+echo://db#password',
+            c: ['ref+echo://db#user', 'plain'],
+          },
+        },
+      ],
+    }).load();
+
+    expect(config.getAll()).toEqual({ a: 'db:user', b: 'db:password', c: ['db:user', 'plain'] });
+    expect(batches).toEqual([['ref+echo://db#user', 'ref+echo://db#password']]);
+  });
+
+  it('resolves references after merging, skipping overridden ones', async () => {
+    const { plugin, batches } = createEchoResolver();
+
+    const config = await defineConfig({
+      schema,
+      plugins: [plugin],
+      sources: [
+        { type: 'object', data: { database: { user: 'ref+echo://db#user', password: 'ref+echo://db#password' } } },
+        { type: 'object', data: { database: { user: 'local' } } },
+      ],
+    }).load();
+
+    expect(config.get('database')).toEqual({ user: 'local', password: 'db:password' });
+    expect(batches).toEqual([['ref+echo://db#password']]);
+  });
+
+  it('interpolates variables inside references', async () => {
+    process.env.ZONFIG_TEST_STAGE = 'prod';
+    try {
+      const { plugin } = createEchoResolver();
+      const config = await defineConfig({
+        schema: z.object({ password: z.string() }),
+        plugins: [plugin],
+        sources: [{ type: 'object', data: { password: 'ref+echo://${ZONFIG_TEST_STAGE}/db#password' } }],
+      }).load();
+
+      expect(config.get('password')).toBe('prod/db:password');
+    } finally {
+      delete process.env.ZONFIG_TEST_STAGE;
+    }
+  });
+
+  it('caches resolved values across reloads', async () => {
+    const { plugin, batches } = createEchoResolver();
+    const options = {
+      schema: z.object({ password: z.string() }),
+      plugins: [plugin],
+      sources: [{ type: 'object' as const, data: { password: 'ref+echo://db#password' } }],
+    };
+
+    const cached = await defineConfig(options).load();
+    await cached.reload();
+    expect(batches).toHaveLength(1);
+
+    const uncached = await defineConfig({ ...options, secretRefs: { cacheTtl: 0 } }).load();
+    await uncached.reload();
+    expect(batches).toHaveLength(3);
+  });
+
+  it('fails with SecretReferenceError for unknown schemes and resolver errors', async () => {
+    const unknown = await defineConfig({
+      schema: z.object({ password: z.string() }),
+      sources: [{ type: 'object', data: { password: 'ref+nowhere://db#password' } }],
+    }).load().catch((e: unknown) => e);
+
+    expect(unknown).toBeInstanceOf(SecretReferenceError);
+    expect((unknown as SecretReferenceError).references).toEqual(['ref+nowhere://db#password']);
+    expect((unknown as SecretReferenceError).message).toContain('No plugin named "nowhere"');
+
+    const missing = await defineConfig({
+      schema: z.object({ password: z.string() }),
+      cwd: TEST_DIR,
+      sources: [{ type: 'object', data: { password: 'ref+file://missing' } }],
+    }).load().catch((e: unknown) => e);
+
+    expect(missing).toBeInstanceOf(SecretReferenceError);
+    expect((missing as SecretReferenceError).message).toContain('ENOENT');
+  });
+
+  it('rejects references in runtime overrides', async () => {
+    const config = await defineConfig({
+      schema: z.object({ password: z.string() }),
+      sources: [{ type: 'object', data: { password: 'plain' } }],
+    }).load();
+
+    expect(() => config.override('password', 'ref+file://./db_password')).toThrow(SecretReferenceError);
+    expect(() => config.override('password', 'ref+file://./db_password')).toThrow('Runtime overrides cannot contain secret references');
+    expect(config.get('password')).toBe('plain');
+  });
+
+  it('restores resolved references from the snapshot without resolving them again', async () => {
+    const { plugin, batches } = createEchoResolver();
+    const file = join(TEST_DIR, 'config.json');
+    const snapshot = join(TEST_DIR, 'snapshot.json');
+    writeFileSync(file, JSON.stringify({ password: 'ref+echo://db#password' }));
+
+    const options = {
+      schema: z.object({ password: z.string() }),
+      plugins: [plugin],
+      sources: [{ type: 'file' as const, path: file }],
+      decrypt: { key: 'snapshot-key' },
+      snapshot,
+    };
+    await defineConfig(options).load();
+
+    const contents = readFileSync(snapshot, 'utf-8');
+    expect(contents).toContain('ref+echo://db#password');
+    expect(contents).not.toContain('db:password');
+
+    writeFileSync(file, '{ broken');
+    const restored = await defineConfig(options).load();
+
+    expect(restored.fromSnapshot).toBe(true);
+    expect(restored.get('password')).toBe('db:password');
+    expect(batches).toHaveLength(1);
+  });
+
+  it('resolves ref+vault:// references with one read per secret', async () => {
+    const vault = await startFakeVault();
+    try {
+      vault.setSecret('secret', 'myapp/db', { user: 'app', password: 'from-vault' });
+
+      const config = await defineConfig({
+        schema,
+        plugins: [createVaultPlugin({ address: vault.url, auth: { type: 'token', token: vault.token } })],
+        sources: [
+          {
+            type: 'object',
+            data: {
+              database: { user: 'ref+vault://secret/myapp/db#user', password: 'ref+vault://secret/myapp/db#password' },
+            },
+          },
+        ],
+      }).load();
+
+      expect(config.get('database')).toEqual({ user: 'app', password: 'from-vault' });
+      expect(vault.requests).toEqual(['GET /v1/secret/data/myapp/db']);
+
+      const missingKey = await defineConfig({
+        schema: z.object({ token: z.string() }),
+        plugins: [createVaultPlugin({ address: vault.url, auth: { type: 'token', token: vault.token } })],
+        sources: [{ type: 'object', data: { token: 'ref+vault://secret/myapp/db#token' } }],
+      }).load().catch((e: unknown) => e);
+
+      expect((missingKey as SecretReferenceError).message).toContain('Key "token" not found in secret secret/myapp/db');
+    } finally {
+      await vault.close();
+    }
+  });
+});
@@ -0,0 +1,348 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { z } from 'zod';
+import {
+  defineConfig,
+  definePlugin,
+  SourceTimeoutError,
+  CircuitOpenError,
+} from '../src/index.js';
+import type { ConfigEvent, ConfigSourceEvent, PluginSource } from '../src/index.js';
+
+const schema = z.object({
+  token: z.string().default('none'),
+});
+
+/**
+ * Plugin backed by a stand-in secret store that can be made slow or unavailable
+ */
+function createStore() {
+  const store = {
+    token: 'abc',
+    failures: 0,
+    available: true,
+    delay: 0,
+    calls: 0,
+  };
+
+  const plugin = definePlugin({
+    name: 'store',
+    load: async (_options, context) => {
+      store.calls++;
+      if (store.delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, store.delay));
+      }
+      if (!store.available || store.failures > 0) {
+        store.failures = Math.max(0, store.failures - 1);
+        throw new Error('store unavailable');
+      }
+      context.setSource?.('token', 'store: tokens/app');
+      return { token: store.token };
+    },
+  });
+
+  return { store, plugin };
+}
+
+function sourceEvents(events: ConfigEvent[]): Array<Pick<ConfigSourceEvent, 'action'>> {
+  return events
+    .filter((event): event is ConfigSourceEvent => event.type === 'source')
+    .map(({ action }) => ({ action }));
+}
+
+describe('source timeouts', () => {
+  it('fails a plugin that does not answer in time', async () => {
+    const { store, plugin } = createStore();
+    store.delay = 200;
+    const events: ConfigSourceEvent[] = [];
+
+    const error = await defineConfig({
+      schema,
+      plugins: [plugin],
+      sources: [{ type: 'plugin', name: 'store', timeout: 20 }],
+      onSourceEvent: (event) => events.push(event),
+    }).load().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SourceTimeoutError);
+    expect((error as SourceTimeoutError).message).toBe('Timed out after 20ms loading plugin: store');
+    expect(events).toEqual([
+      { type: 'source', source: 'plugin: store', action: 'timeout', error, attempt: 1 },
+    ]);
+  });
+
+  it('aborts the signal passed to the plugin when the attempt times out', async () => {
+    let signal: AbortSignal | undefined;
+    const plugin = definePlugin({
+      name: 'hanging',
+      load: (_options, context) => {
+        signal = context.signal;
+        return new Promise(() => {});
+      },
+    });
+
+    const error = await defineConfig({
+      schema,
+      plugins: [plugin],
+      sources: [{ type: 'plugin', name: 'hanging', timeout: 20 }],
+    }).load().catch((e: unknown) => e);
+
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBe(error);
+  });
+
+  describe('without a timeout', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('waits for a slow plugin', async () => {
+      vi.useFakeTimers();
+      let answer: (data: Record<string, unknown>) => void = () => {};
+      const plugin = definePlugin({
+        name: 'slow',
+        load: () => new Promise((resolve) => {
+          answer = resolve;
+        }),
+      });
+
+      const loading = defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'slow' }],
+      }).load();
+
+      await vi.advanceTimersByTimeAsync(60000);
+      answer({ token: 'late' });
+
+      expect((await loading).get('token')).toBe('late');
+    });
+  });
+});
+
+describe('source retries', () => {
+  it('retries failed loads with exponential backoff', async () => {
+    const { store, plugin } = createStore();
+    store.failures = 2;
+    const events: ConfigSourceEvent[] = [];
+
+    const config = await defineConfig({
+      schema,
+      plugins: [plugin],
+      sources: [{ type: 'plugin', name: 'store', retries: 2, retryDelay: 5 }],
+      onSourceEvent: (event) => events.push(event),
+    }).load();
+
+    expect(config.get('token')).toBe('abc');
+    expect(store.calls).toBe(3);
+    expect(events.map(({ action, attempt, delay }) => ({ action, attempt, delay }))).toEqual([
+      { action: 'retry', attempt: 1, delay: 5 },
+      { action: 'retry', attempt: 2, delay: 10 },
+    ]);
+  });
+
+  it('fails once the retries are exhausted', async () => {
+    const { store, plugin } = createStore();
+    store.available = false;
+
+    await expect(
+      defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'store', retries: 1, retryDelay: 5 }],
+      }).load()
+    ).rejects.toThrow('store unavailable');
+    expect(store.calls).toBe(2);
+  });
+});
+
+describe('source fallbacks', () => {
+  it('continues without the source with the defaults fallback', async () => {
+    const { store, plugin } = createStore();
+    store.available = false;
+    const events: ConfigSourceEvent[] = [];
+
+    const config = await defineConfig({
+      schema,
+      plugins: [plugin],
+      sources: [{ type: 'plugin', name: 'store', fallback: 'defaults' }],
+      onSourceEvent: (event) => events.push(event),
+    }).load();
+
+    expect(config.get('token')).toBe('none');
+    expect(events).toEqual([
+      {
+        type: 'source',
+        source: 'plugin: store',
+        action: 'fallback',
+        fallback: 'defaults',
+        error: new Error('store unavailable'),
+      },
+    ]);
+  });
+
+  it('keeps the last loaded data on reload with the cache fallback', async () => {
+    const { store, plugin } = createStore();
+    const config = await defineConfig({
+      schema,
+      plugins: [plugin],
+      sources: [{ type: 'plugin', name: 'store', fallback: 'cache' }],
+    }).load();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+
+    store.available = false;
+    store.token = 'rotated';
+    await config.reload();
+
+    expect(config.get('token')).toBe('abc');
+    expect(events.map((event) => event.type)).toEqual(['source', 'reload']);
+    expect(events[0]).toMatchObject({ action: 'fallback', fallback: 'cache' });
+  });
+
+  it('keeps the source descriptions of cached data', async () => {
+    const { store, plugin } = createStore();
+    const settings = { level: 'info' };
+    const config = await defineConfig({
+      schema: schema.extend({ level: z.string() }),
+      plugins: [plugin],
+      sources: [
+        { type: 'plugin', name: 'store', fallback: 'cache' },
+        { type: 'object', data: settings },
+      ],
+    }).load();
+
+    store.available = false;
+    settings.level = 'debug';
+    await config.reload();
+
+    expect(config.get('level')).toBe('debug');
+    expect(config.getSource('token')).toBe('store: tokens/app');
+  });
+
+  it('fails at startup with the cache fallback, as nothing is cached yet', async () => {
+    const { store, plugin } = createStore();
+    store.available = false;
+
+    await expect(
+      defineConfig({
+        schema,
+        plugins: [plugin],
+        sources: [{ type: 'plugin', name: 'store', fallback: 'cache' }],
+      }).load()
+    ).rejects.toThrow('store unavailable');
+  });
+});
+
+describe('circuit breaker', () => {
+  const source: PluginSource = {
+    type: 'plugin',
+    name: 'store',
+    fallback: 'cache',
+    circuitBreaker: { threshold: 2, resetTimeout: 50 },
+  };
+
+  it('stops calling a failing source until the reset timeout passed', async () => {
+    const { store, plugin } = createStore();
+    const config = await defineConfig({ schema, plugins: [plugin], sources: [source] }).load();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+
+    store.available = false;
+    await config.reload();
+    await config.reload();
+    expect(store.calls).toBe(3);
+    expect(sourceEvents(events)).toEqual([
+      { action: 'fallback' },
+      { action: 'circuit-open' },
+      { action: 'fallback' },
+    ]);
+
+    // Open: the store is not called
+    events.length = 0;
+    await config.reload();
+    expect(store.calls).toBe(3);
+    expect(sourceEvents(events)).toEqual([{ action: 'fallback' }]);
+    expect(config.get('token')).toBe('abc');
+
+    // Half-open: a successful trial closes the circuit
+    events.length = 0;
+    store.available = true;
+    store.token = 'rotated';
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await config.reload();
+
+    expect(store.calls).toBe(4);
+    expect(config.get('token')).toBe('rotated');
+    expect(sourceEvents(events)).toEqual([
+      { action: 'circuit-half-open' },
+      { action: 'circuit-close' },
+    ]);
+  });
+
+  it('reopens the circuit when the trial fails', async () => {
+    const { store, plugin } = createStore();
+    const config = await defineConfig({ schema, plugins: [plugin], sources: [source] }).load();
+
+    store.available = false;
+    await config.reload();
+    await config.reload();
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+    await config.reload();
+
+    expect(store.calls).toBe(4);
+    expect(sourceEvents(events)).toEqual([
+      { action: 'circuit-half-open' },
+      { action: 'circuit-open' },
+      { action: 'fallback' },
+    ]);
+  });
+
+  it('rejects reloads with CircuitOpenError without a fallback', async () => {
+    const { store, plugin } = createStore();
+    const config = await defineConfig({
+      schema,
+      plugins: [plugin],
+      sources: [{ type: 'plugin', name: 'store', circuitBreaker: { threshold: 1 } }],
+    }).load();
+
+    store.available = false;
+    await expect(config.reload()).rejects.toThrow('store unavailable');
+    await expect(config.reload()).rejects.toThrow(CircuitOpenError);
+    expect(store.calls).toBe(2);
+  });
+
+  it('is off unless configured', async () => {
+    const { store, plugin } = createStore();
+    const config = await defineConfig({
+      schema,
+      plugins: [plugin],
+      sources: [{ type: 'plugin', name: 'store', fallback: 'cache' }],
+    }).load();
+
+    store.available = false;
+    for (let i = 0; i < 6; i++) {
+      await config.reload();
+    }
+    expect(store.calls).toBe(7);
+  });
+
+  it('uses the default options with `true`', async () => {
+    const { store, plugin } = createStore();
+    const config = await defineConfig({
+      schema,
+      plugins: [plugin],
+      sources: [{ type: 'plugin', name: 'store', fallback: 'cache', circuitBreaker: true }],
+    }).load();
+
+    store.available = false;
+    for (let i = 0; i < 6; i++) {
+      await config.reload();
+    }
+    // Opens after 5 failures
+    expect(store.calls).toBe(6);
+  });
+});
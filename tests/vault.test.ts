@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  defineConfig,
+  createVaultPlugin,
+  ConfigFetchError,
+  PluginOptionsError,
+  SourceTimeoutError,
+} from '../src/index.js';
+import type { ConfigEvent, PluginLoadContext } from '../src/index.js';
+import { startFakeVault, type FakeVault } from '../src/testing/index.js';
+import { waitFor } from './helpers/wait-for.js';
+
+let vault: FakeVault;
+
+beforeEach(async () => {
+  vault = await startFakeVault();
+});
+
+afterEach(async () => {
+  await vault.close();
+});
+
+describe('Vault plugin', () => {
+  const schema = z.object({
+    database: z.object({
+      user: z.string(),
+      password: z.string(),
+    }),
+  });
+
+  it('reads KV v2 secrets with a token', async () => {
+    vault.setSecret('secret', 'myapp/db', { user: 'app', password: 's3cret' });
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createVaultPlugin({ address: vault.url, auth: { type: 'token', token: vault.token } })],
+      sources: [{ type: 'plugin', name: 'vault', options: { path: 'myapp/db', at: 'database' } }],
+    }).load();
+
+    expect(config.get('database')).toEqual({ user: 'app', password: 's3cret' });
+    expect(config.getSource('database.password')).toBe('plugin: vault');
+    expect(vault.requests).toEqual(['GET /v1/secret/data/myapp/db']);
+  });
+
+  it('reads KV v1 secrets', async () => {
+    vault.setSecret('kv', 'myapp/db', { user: 'app', password: 'v1-secret' });
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createVaultPlugin({ address: vault.url, auth: { type: 'token', token: vault.token } })],
+      sources: [
+        { type: 'plugin', name: 'vault', options: { mount: 'kv', version: 1, path: 'myapp/db', at: 'database' } },
+      ],
+    }).load();
+
+    expect(config.get('database.password')).toBe('v1-secret');
+    expect(vault.requests).toEqual(['GET /v1/kv/myapp/db']);
+  });
+
+  it('maps secret keys onto config paths', async () => {
+    vault.setSecret('secret', 'shared/postgres', { username: 'app', pass: 'mapped', unused: 'x' });
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createVaultPlugin({ address: vault.url, auth: { type: 'token', token: vault.token } })],
+      sources: [
+        {
+          type: 'plugin',
+          name: 'vault',
+          options: {
+            path: 'shared/postgres',
+            keys: { username: 'database.user', pass: 'database.password' },
+          },
+        },
+      ],
+    }).load();
+
+    expect(config.getAll()).toEqual({ database: { user: 'app', password: 'mapped' } });
+  });
+
+  it('reads the address and token from the environment', async () => {
+    vault.setSecret('secret', 'app', { key: 'value' });
+    const context: PluginLoadContext = {
+      profile: 'default',
+      cwd: process.cwd(),
+      env: { VAULT_ADDR: vault.url, VAULT_TOKEN: vault.token },
+    };
+
+    const plugin = createVaultPlugin();
+    expect(await plugin.load({ path: 'app', mount: 'secret', version: 2 }, context)).toEqual({ key: 'value' });
+  });
+
+  it('logs in with AppRole and reuses the token', async () => {
+    vault.setSecret('secret', 'myapp/db', { user: 'app', password: 'approle' });
+    vault.addAppRole('role-1', 'secret-1');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createVaultPlugin({
+        address: vault.url,
+        auth: { type: 'approle', roleId: 'role-1', secretId: 'secret-1' },
+      })],
+      sources: [{ type: 'plugin', name: 'vault', options: { path: 'myapp/db', at: 'database' } }],
+    }).load();
+
+    await config.reload();
+
+    expect(config.get('database.password')).toBe('approle');
+    expect(vault.requests).toEqual([
+      'POST /v1/auth/approle/login',
+      'GET /v1/secret/data/myapp/db',
+      'GET /v1/secret/data/myapp/db',
+    ]);
+  });
+
+  it('logs in again when the AppRole token was revoked', async () => {
+    vault.setSecret('secret', 'myapp/db', { user: 'app', password: 'approle' });
+    vault.addAppRole('role-1', 'secret-1');
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createVaultPlugin({
+        address: vault.url,
+        auth: { type: 'approle', roleId: 'role-1', secretId: 'secret-1' },
+      })],
+      sources: [{ type: 'plugin', name: 'vault', options: { path: 'myapp/db', at: 'database' } }],
+    }).load();
+
+    vault.revokeTokens();
+    await config.reload();
+
+    expect(vault.requests.filter((request) => request.startsWith('POST'))).toHaveLength(2);
+  });
+
+  it('fails with ConfigFetchError for missing secrets and bad tokens', async () => {
+    const context: PluginLoadContext = { profile: 'default', cwd: process.cwd(), env: {} };
+    const options = { path: 'missing', mount: 'secret', version: 2 as const };
+
+    const missing = await createVaultPlugin({ address: vault.url, auth: { type: 'token', token: vault.token } })
+      .load(options, context)
+      .catch((e: unknown) => e);
+    expect(missing).toBeInstanceOf(ConfigFetchError);
+    expect((missing as ConfigFetchError).status).toBe(404);
+
+    const denied = await createVaultPlugin({ address: vault.url, auth: { type: 'token', token: 'wrong' } })
+      .load(options, context)
+      .catch((e: unknown) => e);
+    expect((denied as ConfigFetchError).status).toBe(403);
+    expect((denied as ConfigFetchError).message).toContain('permission denied');
+  });
+
+  it('fails with ConfigFetchError for error pages that are not JSON', async () => {
+    const proxy = createServer((_req, res) => {
+      res.writeHead(502, { 'content-type': 'text/html' });
+      res.end('<html><body>502 Bad Gateway</body></html>');
+    });
+    await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+    const { port } = proxy.address() as AddressInfo;
+
+    try {
+      const context: PluginLoadContext = { profile: 'default', cwd: process.cwd(), env: {} };
+      const error = await createVaultPlugin({ address: `http://127.0.0.1:${port}`, auth: { type: 'token', token: 'any' } })
+        .load({ path: 'myapp/db', mount: 'secret', version: 2 }, context)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConfigFetchError);
+      expect((error as ConfigFetchError).status).toBe(502);
+      expect((error as ConfigFetchError).message).toContain('HTTP 502');
+    } finally {
+      await new Promise((resolve) => proxy.close(resolve));
+    }
+  });
+
+  it('cancels its request when the source times out', async () => {
+    let closed = false;
+    // Never responds
+    const hanging = createServer((req) => {
+      req.socket.on('close', () => {
+        closed = true;
+      });
+    });
+    await new Promise<void>((resolve) => hanging.listen(0, '127.0.0.1', resolve));
+    const { port } = hanging.address() as AddressInfo;
+
+    try {
+      const loading = defineConfig({
+        schema,
+        plugins: [createVaultPlugin({ address: `http://127.0.0.1:${port}`, auth: { type: 'token', token: 'any' } })],
+        sources: [{ type: 'plugin', name: 'vault', options: { path: 'myapp/db', at: 'database' }, timeout: 50 }],
+      }).load();
+
+      await expect(loading).rejects.toThrow(SourceTimeoutError);
+      await waitFor(() => closed, 1000);
+      expect(closed).toBe(true);
+    } finally {
+      hanging.closeAllConnections();
+      await new Promise((resolve) => hanging.close(resolve));
+    }
+  });
+
+  it('validates source options', async () => {
+    await expect(
+      defineConfig({
+        schema,
+        plugins: [createVaultPlugin({ address: vault.url })],
+        sources: [{ type: 'plugin', name: 'vault', options: { path: 'app', version: 3 } }],
+      }).load()
+    ).rejects.toThrow(PluginOptionsError);
+  });
+});
+
+describe('Vault plugin leases', () => {
+  const schema = z.object({ password: z.string() });
+
+  async function watchSecret(lease: { duration: number; renewable: boolean; maxTtl?: number }) {
+    vault.setSecret('kv', 'dynamic/db', { password: 'first' }, lease);
+
+    const config = await defineConfig({
+      schema,
+      plugins: [createVaultPlugin({ address: vault.url, auth: { type: 'token', token: vault.token } })],
+      sources: [{ type: 'plugin', name: 'vault', options: { mount: 'kv', version: 1, path: 'dynamic/db' } }],
+    }).load();
+
+    const events: ConfigEvent[] = [];
+    config.on((event) => events.push(event));
+    config.watch({ debounce: 5 });
+
+    return { config, events };
+  }
+
+  const renewals = () => vault.requests.filter((request) => request === 'PUT /v1/sys/leases/renew').length;
+  const reads = () => vault.requests.filter((request) => request === 'GET /v1/kv/dynamic/db').length;
+
+  it('renews renewable leases without reloading', async () => {
+    const { config } = await watchSecret({ duration: 0.03, renewable: true });
+
+    await waitFor(() => renewals() >= 2);
+    await config.close();
+
+    expect(renewals()).toBeGreaterThanOrEqual(2);
+    expect(reads()).toBe(1);
+  });
+
+  it('reloads when a lease cannot be renewed', async () => {
+    const { config, events } = await watchSecret({ duration: 0.03, renewable: true });
+
+    vault.failRenewals(true);
+    vault.setSecret('kv', 'dynamic/db', { password: 'second' }, { duration: 10, renewable: true });
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    await config.close();
+
+    expect(config.get('password')).toBe('second');
+  });
+
+  it('reloads when a renewal reaches the max TTL', async () => {
+    const { config, events } = await watchSecret({ duration: 0.03, renewable: true, maxTtl: 0.04 });
+
+    vault.setSecret('kv', 'dynamic/db', { password: 'second' }, { duration: 10, renewable: true });
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    await config.close();
+
+    expect(renewals()).toBe(1);
+    expect(config.get('password')).toBe('second');
+  });
+
+  it('reloads when a non-renewable lease expires', async () => {
+    const { config, events } = await watchSecret({ duration: 0.03, renewable: false });
+
+    vault.setSecret('kv', 'dynamic/db', { password: 'second' }, { duration: 10, renewable: false });
+    await waitFor(() => events.some((event) => event.type === 'change'));
+    await config.close();
+
+    expect(renewals()).toBe(0);
+    expect(config.get('password')).toBe('second');
+  });
+});
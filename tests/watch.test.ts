@@ -1,9 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { writeFileSync, readFileSync, mkdirSync, rmSync, symlinkSync, renameSync } from 'node:fs';
 import { join } from 'node:path';
 import { z } from 'zod';
-import { defineConfig } from '../src/index.js';
+import { defineConfig, definePlugin, ConfigChangeRejectedError, ConfigParseError } from '../src/index.js';
 import type { ConfigEvent } from '../src/index.js';
+import { waitFor } from './helpers/wait-for.js';
 
 const TEST_DIR = join(import.meta.dirname, '.test-watch');
 const TEST_CONFIG_FILE = join(TEST_DIR, 'config.json');
@@ -136,6 +137,98 @@ describe('Watch Mode', () => {
     });
   });
 
+  describe('subscribe()', () => {
+    const schema = z.object({
+      port: z.number(),
+      host: z.string(),
+      database: z.object({
+        url: z.string(),
+        pool: z.object({ min: z.number(), max: z.number() }),
+      }).optional(),
+    });
+
+    const database = { url: 'postgres://localhost/app', pool: { min: 1, max: 10 } };
+
+    it('fires when the path or one of its descendants changes', async () => {
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 3000, host: 'localhost', database }));
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+      }).load();
+
+      const calls: unknown[][] = [];
+      config.subscribe('database.pool', (newValue, oldValue) => calls.push([newValue, oldValue]));
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 4000, host: 'localhost', database }));
+      await config.reload();
+      expect(calls).toHaveLength(0);
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({
+        port: 4000,
+        host: 'localhost',
+        database: { ...database, pool: { min: 1, max: 20 } },
+      }));
+      await config.reload();
+      expect(calls).toEqual([[{ min: 1, max: 20 }, { min: 1, max: 10 }]]);
+    });
+
+    it('does not fire for arrays that did not change', async () => {
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 3000, host: 'localhost', hosts: ['a', 'b'] }));
+      const config = await defineConfig({
+        schema: schema.extend({ hosts: z.array(z.string()) }),
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+      }).load();
+
+      const calls: unknown[][] = [];
+      let hookCalls = 0;
+      config.subscribe('hosts', (newValue, oldValue) => calls.push([newValue, oldValue]));
+      config.beforeChange(() => {
+        hookCalls++;
+      });
+
+      await config.reload();
+      await config.reload();
+      expect(calls).toHaveLength(0);
+      expect(hookCalls).toBe(0);
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 3000, host: 'localhost', hosts: ['a', 'c'] }));
+      await config.reload();
+      expect(calls).toEqual([[['a', 'c'], ['a', 'b']]]);
+      expect(hookCalls).toBe(1);
+    });
+
+    it('fires when an ancestor is added or removed', async () => {
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+      }).load();
+
+      const calls: unknown[][] = [];
+      config.subscribe('database.pool.max', (newValue, oldValue) => calls.push([newValue, oldValue]));
+
+      const dispose = config.override('database', database);
+      dispose();
+
+      expect(calls).toEqual([[10, undefined], [undefined, 10]]);
+    });
+
+    it('stops firing after unsubscribing', async () => {
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+      }).load();
+
+      const values: number[] = [];
+      const unsubscribe = config.subscribe('port', (port) => values.push(port));
+
+      config.override('port', 4000);
+      unsubscribe();
+      config.override('port', 5000);
+
+      expect(values).toEqual([4000]);
+    });
+  });
+
   describe('reload()', () => {
     it('reloads config from sources', async () => {
       const schema = z.object({
@@ -161,6 +254,30 @@ describe('Watch Mode', () => {
       expect(config.get('port')).toBe(4000);
     });
 
+    it('detects changed dates', async () => {
+      process.env.ZONFIG_TEST_RELEASE_START = '2024-01-01T00:00:00.000Z';
+      try {
+        const config = await defineConfig({
+          schema: z.object({ releaseStart: z.date() }),
+          sources: [{ type: 'env', prefix: 'ZONFIG_TEST_' }],
+        }).load();
+
+        const events: ConfigEvent[] = [];
+        config.on((event) => events.push(event));
+
+        await config.reload();
+        expect(events.map((event) => event.type)).toEqual(['reload']);
+
+        process.env.ZONFIG_TEST_RELEASE_START = '2024-06-01T00:00:00.000Z';
+        await config.reload();
+
+        expect(config.get('releaseStart')).toEqual(new Date('2024-06-01T00:00:00.000Z'));
+        expect(events[1]).toMatchObject({ type: 'change', changedPaths: ['releaseStart'] });
+      } finally {
+        delete process.env.ZONFIG_TEST_RELEASE_START;
+      }
+    });
+
     it('emits change event with changed paths', async () => {
       const schema = z.object({
         port: z.number(),
@@ -238,6 +355,242 @@ describe('Watch Mode', () => {
 
       const errorEvent = events.find(e => e.type === 'error');
       expect(errorEvent).toBeDefined();
+
+      const rejectEvent = events.find(e => e.type === 'reject');
+      expect(rejectEvent).toMatchObject({ type: 'reject', reason: 'error', changedPaths: [] });
+      expect(config.get('port')).toBe(3000);
+    });
+  });
+
+  describe('beforeChange()', () => {
+    const schema = z.object({
+      port: z.number(),
+      host: z.string(),
+    });
+
+    it('keeps the current data when a hook vetoes the change', async () => {
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+      }).load();
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.beforeChange(({ newData, oldData }) => newData.host === oldData.host);
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 3000, host: 'db.example.com' }));
+      await config.reload();
+
+      expect(config.get('host')).toBe('localhost');
+      expect(events.map((e) => e.type)).toEqual(['reject']);
+      expect(events[0]).toMatchObject({ reason: 'vetoed', changedPaths: ['host'] });
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 4000, host: 'localhost' }));
+      await config.reload();
+
+      expect(config.get('port')).toBe(4000);
+    });
+
+    it('waits for async hooks to approve', async () => {
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+      }).load();
+
+      const seen: string[][] = [];
+      config.beforeChange(async ({ changedPaths }) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        seen.push(changedPaths);
+        return true;
+      });
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 4000, host: 'localhost' }));
+      await config.reload();
+
+      expect(seen).toEqual([['port']]);
+      expect(config.get('port')).toBe(4000);
+    });
+
+    it('reports the error thrown by a hook as the reason', async () => {
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+      }).load();
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.beforeChange(() => {
+        throw new Error('port changes need a restart');
+      });
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 4000, host: 'localhost' }));
+      await config.reload();
+
+      const rejectEvent = events.find((e) => e.type === 'reject');
+      expect(rejectEvent?.type === 'reject' && rejectEvent.error).toBeInstanceOf(ConfigChangeRejectedError);
+      expect(rejectEvent?.type === 'reject' && rejectEvent.error.message).toContain('port changes need a restart');
+      expect(config.get('port')).toBe(3000);
+    });
+
+    it('applies overlapping reloads in order', async () => {
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+      }).load();
+
+      let second: Promise<void> | undefined;
+      config.beforeChange(async ({ newData }) => {
+        if (newData.port === 4000) {
+          // A newer change arrives while this one is still being approved
+          writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 5000, host: 'localhost' }));
+          second = config.reload();
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        return true;
+      });
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 4000, host: 'localhost' }));
+      await config.reload();
+      await second;
+
+      expect(config.get('port')).toBe(5000);
+    });
+
+    it('stops running removed hooks', async () => {
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+      }).load();
+
+      const remove = config.beforeChange(() => false);
+      remove();
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 4000, host: 'localhost' }));
+      await config.reload();
+
+      expect(config.get('port')).toBe(4000);
+    });
+  });
+
+  describe('last-known-good snapshot', () => {
+    const schema = z.object({
+      port: z.number(),
+      host: z.string(),
+    });
+    const snapshot = join(TEST_DIR, 'state', 'snapshot.json');
+
+    it('boots from the snapshot when the sources are broken', async () => {
+      await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+        snapshot,
+      }).load();
+
+      writeFileSync(TEST_CONFIG_FILE, '{ broken');
+
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+        snapshot,
+      }).load();
+
+      expect(config.fromSnapshot).toBe(true);
+      expect(config.getAll()).toEqual({ port: 3000, host: 'localhost' });
+      expect(config.getSource('port')).toBe(`snapshot: ${snapshot}`);
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 4000, host: 'localhost' }));
+      await config.reload();
+
+      expect(config.fromSnapshot).toBe(false);
+      expect(config.get('port')).toBe(4000);
+    });
+
+    it('updates the snapshot after each successful reload', async () => {
+      const config = await defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+        snapshot,
+      }).load();
+
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 4000, host: 'localhost' }));
+      await config.reload();
+
+      const saved = JSON.parse(readFileSync(snapshot, 'utf-8')) as { data: unknown };
+      expect(saved.data).toEqual({ port: 4000, host: 'localhost' });
+    });
+
+    it('only writes values the schema accepts', async () => {
+      process.env.ZONFIG_TEST_UNRELATED = 'not-config';
+      try {
+        await defineConfig({
+          schema,
+          sources: [{ type: 'file', path: TEST_CONFIG_FILE }, { type: 'env' }],
+          snapshot,
+        }).load();
+
+        const contents = readFileSync(snapshot, 'utf-8');
+        expect(contents).not.toContain('not-config');
+        expect(Object.keys((JSON.parse(contents) as { data: object }).data).sort()).toEqual(['host', 'port']);
+      } finally {
+        delete process.env.ZONFIG_TEST_UNRELATED;
+      }
+    });
+
+    it('encrypts the data with a decryption key', async () => {
+      const options = {
+        schema,
+        sources: [{ type: 'file' as const, path: TEST_CONFIG_FILE }],
+        snapshot,
+        decrypt: { key: 'snapshot-key' },
+      };
+      await defineConfig(options).load();
+
+      const contents = readFileSync(snapshot, 'utf-8');
+      expect(contents).not.toContain('localhost');
+      expect((JSON.parse(contents) as { data: unknown }).data).toMatch(/^ENC\[/);
+
+      writeFileSync(TEST_CONFIG_FILE, '{ broken');
+      const config = await defineConfig(options).load();
+
+      expect(config.fromSnapshot).toBe(true);
+      expect(config.getAll()).toEqual({ port: 3000, host: 'localhost' });
+    });
+
+    it('leaves out values from plugin sources and secret files without a key', async () => {
+      const secretFile = join(TEST_DIR, 'password');
+      writeFileSync(secretFile, 'file-secret');
+      process.env.ZONFIG_TEST_PASSWORD_FILE = secretFile;
+      const plugin = definePlugin({ name: 'secrets', load: async () => ({ token: 'plugin-secret' }) });
+
+      try {
+        await defineConfig({
+          schema: schema.extend({ password: z.string(), token: z.string() }),
+          plugins: [plugin],
+          sources: [
+            { type: 'file', path: TEST_CONFIG_FILE },
+            { type: 'env', prefix: 'ZONFIG_TEST_', secretFiles: true },
+            { type: 'plugin', name: 'secrets' },
+          ],
+          snapshot,
+        }).load();
+
+        const saved = JSON.parse(readFileSync(snapshot, 'utf-8')) as { data: unknown };
+        expect(saved.data).toEqual({ port: 3000, host: 'localhost' });
+      } finally {
+        delete process.env.ZONFIG_TEST_PASSWORD_FILE;
+      }
+    });
+
+    it('throws the original error without a snapshot', async () => {
+      writeFileSync(TEST_CONFIG_FILE, '{ broken');
+
+      const container = defineConfig({
+        schema,
+        sources: [{ type: 'file', path: TEST_CONFIG_FILE }],
+        snapshot,
+      });
+
+      await expect(container.load()).rejects.toThrow(ConfigParseError);
     });
   });
 
@@ -283,6 +636,156 @@ describe('Watch Mode', () => {
     }, 5000);
   });
 
+  describe('profile change detection', () => {
+    it('watches files inherited through profile extends', async () => {
+      const container = defineConfig({
+        schema: z.object({ port: z.number(), host: z.string() }),
+        profiles: {
+          production: { sources: [{ type: 'file', path: TEST_CONFIG_FILE }] },
+          staging: { extends: 'production', defaults: { host: 'staging' } },
+        },
+        profile: 'staging',
+      });
+
+      const config = await container.load();
+      expect(config.get('port')).toBe(3000);
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.watch({ debounce: 50 });
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      writeFileSync(TEST_CONFIG_FILE, JSON.stringify({ port: 5000, host: 'localhost' }));
+      await waitFor(() => events.some(e => e.type === 'change'));
+
+      config.unwatch();
+
+      expect(events.some(e => e.type === 'change')).toBe(true);
+      expect(config.get('port')).toBe(5000);
+    }, 5000);
+  });
+
+  describe('included file change detection', () => {
+    it('reloads when an included file changes', async () => {
+      const dbFile = join(TEST_DIR, 'db.json');
+      const mainFile = join(TEST_DIR, 'main.json');
+      writeFileSync(dbFile, JSON.stringify({ host: 'db-1' }));
+      writeFileSync(mainFile, JSON.stringify({ database: { $include: './db.json' } }));
+
+      const container = defineConfig({
+        schema: z.object({ database: z.object({ host: z.string() }) }),
+        sources: [{ type: 'file', path: mainFile }],
+      });
+
+      const config = await container.load();
+      expect(config.get('database.host')).toBe('db-1');
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.watch({ debounce: 50 });
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      writeFileSync(dbFile, JSON.stringify({ host: 'db-2' }));
+      await waitFor(() => events.some(e => e.type === 'change'));
+
+      config.unwatch();
+
+      expect(events.some(e => e.type === 'change')).toBe(true);
+      expect(config.get('database.host')).toBe('db-2');
+    }, 5000);
+  });
+
+  describe('glob change detection', () => {
+    it('reloads when a matching file is added', async () => {
+      const confDir = join(TEST_DIR, 'conf.d');
+      mkdirSync(confDir);
+      writeFileSync(join(confDir, '10-base.json'), JSON.stringify({ port: 3000 }));
+
+      const container = defineConfig({
+        schema: z.object({ port: z.number() }),
+        sources: [{ type: 'file', path: join(confDir, '*.json') }],
+      });
+
+      const config = await container.load();
+      expect(config.get('port')).toBe(3000);
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.watch({ debounce: 50 });
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      writeFileSync(join(confDir, '20-override.json'), JSON.stringify({ port: 4000 }));
+      await waitFor(() => events.some(e => e.type === 'change'));
+
+      config.unwatch();
+
+      expect(events.some(e => e.type === 'change')).toBe(true);
+      expect(config.get('port')).toBe(4000);
+    }, 5000);
+  });
+
+  describe('interpolated paths', () => {
+    it('watches the file a ${profile} path resolves to', async () => {
+      writeFileSync(join(TEST_DIR, 'staging.json'), JSON.stringify({ port: 3000 }));
+
+      const container = defineConfig({
+        schema: z.object({ port: z.number() }),
+        cwd: TEST_DIR,
+        profile: 'staging',
+        sources: [{ type: 'file', path: '${profile}.json' }],
+      });
+
+      const config = await container.load();
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.watch({ debounce: 50 });
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      writeFileSync(join(TEST_DIR, 'staging.json'), JSON.stringify({ port: 4000 }));
+      await waitFor(() => events.some(e => e.type === 'change'));
+
+      config.unwatch();
+
+      expect(events.some(e => e.type === 'change')).toBe(true);
+      expect(config.get('port')).toBe(4000);
+    }, 5000);
+  });
+
+  describe('directory change detection', () => {
+    it('reloads when the ..data symlink is swapped atomically', async () => {
+      const volumeDir = join(TEST_DIR, 'volume');
+      mkdirSync(join(volumeDir, '..v1'), { recursive: true });
+      writeFileSync(join(volumeDir, '..v1', 'port'), '3000');
+      symlinkSync('..v1', join(volumeDir, '..data'));
+      symlinkSync(join('..data', 'port'), join(volumeDir, 'port'));
+
+      const container = defineConfig({
+        schema: z.object({ port: z.number() }),
+        sources: [{ type: 'directory', path: volumeDir }],
+      });
+
+      const config = await container.load();
+      expect(config.get('port')).toBe(3000);
+
+      const events: ConfigEvent[] = [];
+      config.on((event) => events.push(event));
+      config.watch({ debounce: 50 });
+
+      // Same sequence as the kubelet: write new data dir, then rename a temporary symlink over ..data
+      mkdirSync(join(volumeDir, '..v2'));
+      writeFileSync(join(volumeDir, '..v2', 'port'), '4000');
+      symlinkSync('..v2', join(volumeDir, '..data_tmp'));
+      renameSync(join(volumeDir, '..data_tmp'), join(volumeDir, '..data'));
+
+      await waitFor(() => events.some(e => e.type === 'change'));
+      config.unwatch();
+
+      expect(events.some(e => e.type === 'change')).toBe(true);
+      expect(config.get('port')).toBe(4000);
+    }, 5000);
+  });
+
   describe('nested config changes', () => {
     it('detects nested value changes', async () => {
       const schema = z.object({